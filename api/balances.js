@@ -0,0 +1,75 @@
+// Token Balances
+// Reads private and public balances through the chain adapter. Private
+// balances need a simulation per request, so results are cached briefly per
+// account and token; token metadata never changes and is cached for good.
+
+import { fromUnits } from './decimal.js';
+
+const DEFAULT_TTL = 10 * 1000;
+
+export class BalanceCache {
+  /**
+   * @param {import('./chain/index.js').ChainAdapter} chain
+   * @param {number} ttl How long a balance stays fresh, in milliseconds
+   */
+  constructor(chain, ttl = DEFAULT_TTL) {
+    this.chain = chain;
+    this.ttl = ttl;
+    this.balances = new Map();
+    this.tokens = new Map();
+  }
+
+  async getTokenInfo(account, token) {
+    let info = this.tokens.get(token);
+    if (!info) {
+      info = this.chain.getTokenInfo(account, token);
+      this.tokens.set(token, info);
+      // Don't remember a failed lookup
+      info.catch(() => this.tokens.delete(token));
+    }
+    return info;
+  }
+
+  /**
+   * Balances of an account, formatted with the token's decimals
+   * @param {import('./chain/index.js').ChainAccount} account
+   * @param {string} token Token contract address
+   * @returns {Promise<{ balance: string, privateBalance: string, publicBalance: string, decimals: number, symbol: string, tokenAddress: string, updatedAt: number }>}
+   */
+  async get(account, token) {
+    const key = `${account.address}:${token}`;
+    const cached = this.balances.get(key);
+    if (cached && Date.now() - cached.updatedAt < this.ttl) {
+      return cached;
+    }
+
+    const [{ symbol, decimals }, balances] = await Promise.all([
+      this.getTokenInfo(account, token),
+      this.chain.getBalances(account, token),
+    ]);
+
+    const result = {
+      balance: fromUnits(balances.private + balances.public, decimals),
+      privateBalance: fromUnits(balances.private, decimals),
+      publicBalance: fromUnits(balances.public, decimals),
+      decimals,
+      symbol,
+      tokenAddress: token,
+      updatedAt: Date.now(),
+    };
+    this.balances.set(key, result);
+    return result;
+  }
+
+  /**
+   * Drop cached balances for an address, e.g. after it sends a transaction
+   * @param {string} address
+   */
+  invalidate(address) {
+    for (const key of this.balances.keys()) {
+      if (key.startsWith(`${address}:`)) {
+        this.balances.delete(key);
+      }
+    }
+  }
+}
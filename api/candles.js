@@ -0,0 +1,104 @@
+// Candles
+// Aggregates executed trades into OHLCV candles for each supported interval.
+// Candles are rebuilt from the fills ledger on startup and the current one
+// is updated as each fill arrives; intervals with no trades have no candle.
+// Fills whose settlement failed were reverted and never count.
+
+import { toUnits, fromUnits, mulUnits } from './decimal.js';
+import { SETTLEMENT_STATUS } from '../shared/contract.mjs';
+
+export const INTERVAL_MS = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+function serializeCandle(candle) {
+  return {
+    time: candle.time,
+    open: fromUnits(candle.open),
+    high: fromUnits(candle.high),
+    low: fromUnits(candle.low),
+    close: fromUnits(candle.close),
+    volume: fromUnits(candle.volume),
+    notional: fromUnits(candle.notional),
+    trades: candle.trades,
+  };
+}
+
+export class CandleAggregator {
+  /**
+   * @param {object[]} fills Serialized fills restored from storage
+   */
+  constructor(fills = []) {
+    this.rebuild(fills);
+  }
+
+  /**
+   * Recompute every candle from scratch, e.g. after a fill is reverted
+   * @param {object[]} fills Serialized fills of the market
+   */
+  rebuild(fills) {
+    // Per interval: candles sorted by start time, plus an index by start time
+    this.series = new Map(
+      Object.keys(INTERVAL_MS).map((interval) => [interval, { candles: [], byTime: new Map() }])
+    );
+    fills
+      .filter((fill) => fill.settlement !== SETTLEMENT_STATUS.FAILED)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((fill) => this.record(fill));
+  }
+
+  /**
+   * Fold a fill into the candle covering its timestamp at every interval
+   * @param {{ price: string, amount: string, timestamp: number }} fill Serialized fill
+   */
+  record(fill) {
+    const price = toUnits(fill.price);
+    const amount = toUnits(fill.amount);
+
+    for (const [interval, series] of this.series) {
+      const time = fill.timestamp - (fill.timestamp % INTERVAL_MS[interval]);
+      let candle = series.byTime.get(time);
+      if (!candle) {
+        candle = { time, open: price, high: price, low: price, close: price, volume: 0n, notional: 0n, trades: 0 };
+        series.byTime.set(time, candle);
+        this.insert(series.candles, candle);
+      }
+
+      if (price > candle.high) candle.high = price;
+      if (price < candle.low) candle.low = price;
+      candle.close = price;
+      candle.volume += amount;
+      candle.notional += mulUnits(price, amount);
+      candle.trades += 1;
+    }
+  }
+
+  // Fills almost always land in the newest candle; older ones are spliced into place
+  insert(candles, candle) {
+    let index = candles.length;
+    while (index > 0 && candles[index - 1].time > candle.time) index -= 1;
+    candles.splice(index, 0, candle);
+  }
+
+  /**
+   * The most recent candles of an interval within a time range, oldest first
+   * @param {object} query
+   * @param {keyof INTERVAL_MS} query.interval
+   * @param {number} [query.from] Earliest candle start (inclusive, ms)
+   * @param {number} [query.to] Latest candle start (inclusive, ms)
+   * @param {number} [query.limit] Maximum number of candles
+   * @returns {object[]} Serialized candles
+   */
+  query({ interval, from = 0, to = Infinity, limit = DEFAULT_LIMIT }) {
+    const size = Math.min(Math.max(limit, 1), MAX_LIMIT);
+    const inRange = this.series.get(interval).candles
+      .filter((candle) => candle.time >= from && candle.time <= to);
+    return inRange.slice(-size).map(serializeCandle);
+  }
+}
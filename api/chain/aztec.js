@@ -0,0 +1,236 @@
+// Aztec Chain Adapter
+// Talks to a real Aztec node. Account and contract calls go through an
+// in-process TestWallet (PXE), created on first use, with fees paid by the
+// sponsored FPC.
+
+import { createAztecNodeClient } from '@aztec/aztec.js/node';
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Fr } from '@aztec/aztec.js/fields';
+import { Contract } from '@aztec/aztec.js/contracts';
+import { SponsoredFeePaymentMethod } from '@aztec/aztec.js/fee';
+import { TxHash, TxStatus } from '@aztec/aztec.js/tx';
+import { readFieldCompressedString } from '@aztec/aztec.js/utils';
+import { getSchnorrAccountContractAddress } from '@aztec/accounts/schnorr';
+import { TestWallet } from '@aztec/test-wallet/server';
+import { TokenContract } from '@aztec/noir-contracts.js/Token';
+import { EscrowContract } from '@aztec/noir-contracts.js/Escrow';
+import { ChainError, CHAIN_ERRORS } from './index.js';
+import { TX_STATUS } from '../../shared/contract.mjs';
+
+const DEFAULT_NODE_URL = 'https://devnet.aztec-labs.com';
+const DEFAULT_TIMEOUT = 10_000;
+
+// Rejects with UNAVAILABLE instead of hanging when the node stops answering
+function withTimeout(promise, ms, what) {
+  let timer;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new ChainError(CHAIN_ERRORS.UNAVAILABLE, `${what} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// How the JSON-RPC client and fetch report a node they could not reach or
+// that failed on its side, as opposed to a call the node rejected
+const UNREACHABLE_PATTERN = /Error fetching from host|Error 5\d\d from server|fetch failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|EAI_AGAIN|socket hang up|Bad Gateway|Service Unavailable|Gateway Timeout|timed? ?out/i;
+
+function toChainError(error) {
+  if (error instanceof ChainError) return error;
+  if (/balance too low|underflow/i.test(error.message)) {
+    return new ChainError(CHAIN_ERRORS.INSUFFICIENT_BALANCE, 'Insufficient balance');
+  }
+  if (UNREACHABLE_PATTERN.test(error.message)) {
+    return new ChainError(CHAIN_ERRORS.UNAVAILABLE, `Aztec node unavailable: ${error.message}`);
+  }
+  return new ChainError(CHAIN_ERRORS.REVERTED, error.message);
+}
+
+export class AztecChain {
+  /**
+   * @param {object} options
+   * @param {string} [options.nodeUrl] Aztec node URL
+   * @param {string} [options.sponsoredFpc] Sponsored fee payment contract address
+   * @param {number} [options.timeout] Milliseconds to wait for node queries
+   */
+  constructor({ nodeUrl = DEFAULT_NODE_URL, sponsoredFpc, timeout = DEFAULT_TIMEOUT } = {}) {
+    this.name = 'aztec';
+    // The deployed Orderbook contract swaps between makers and takers who each
+    // sign their own side; it has no entrypoint for settling pooled escrow fills
+    this.canSettle = false;
+    this.nodeUrl = nodeUrl;
+    this.sponsoredFpc = sponsoredFpc;
+    this.timeout = timeout;
+    this.node = null;
+    this.wallet = null;
+    this.accounts = new Map();
+    this.contracts = new Map();
+  }
+
+  getNode() {
+    if (!this.node) {
+      this.node = createAztecNodeClient(this.nodeUrl);
+    }
+    return this.node;
+  }
+
+  async getWallet() {
+    if (!this.wallet) {
+      this.wallet = withTimeout(TestWallet.create(this.getNode()), this.timeout * 6, 'Wallet startup')
+        .catch((error) => {
+          this.wallet = null;
+          throw error;
+        });
+    }
+    return this.wallet;
+  }
+
+  // Register the account with the wallet once, returning its address
+  async getAccount(account) {
+    let registered = this.accounts.get(account.address);
+    if (!registered) {
+      registered = this.getWallet()
+        .then((wallet) => wallet.createSchnorrAccount(Fr.fromHexString(account.secretKey), Fr.fromHexString(account.salt)))
+        .then((manager) => manager.address)
+        .catch((error) => {
+          this.accounts.delete(account.address);
+          throw error;
+        });
+      this.accounts.set(account.address, registered);
+    }
+    return registered;
+  }
+
+  async getContract(address, artifact = TokenContract.artifact) {
+    const wallet = await this.getWallet();
+    if (!this.contracts.has(address)) {
+      await wallet.registerContract(AztecAddress.fromString(address), artifact);
+      this.contracts.set(address, true);
+    }
+    return Contract.at(AztecAddress.fromString(address), artifact, wallet);
+  }
+
+  feeOptions() {
+    if (!this.sponsoredFpc) return undefined;
+    return { paymentMethod: new SponsoredFeePaymentMethod(AztecAddress.fromString(this.sponsoredFpc)) };
+  }
+
+  async getNodeInfo() {
+    try {
+      const info = await withTimeout(this.getNode().getNodeInfo(), this.timeout, 'Node info');
+      return { nodeVersion: info.nodeVersion, l1ChainId: info.l1ChainId, rollupVersion: info.rollupVersion };
+    } catch (error) {
+      throw new ChainError(CHAIN_ERRORS.UNAVAILABLE, `Aztec node unavailable: ${error.message}`);
+    }
+  }
+
+  async getBlockTips() {
+    try {
+      const tips = await withTimeout(this.getNode().getL2Tips(), this.timeout, 'Block tips');
+      return { latest: tips.latest.number, proven: tips.proven.number, finalized: tips.finalized.number };
+    } catch (error) {
+      throw new ChainError(CHAIN_ERRORS.UNAVAILABLE, `Aztec node unavailable: ${error.message}`);
+    }
+  }
+
+  async deriveAddress(secretKey, salt) {
+    const address = await getSchnorrAccountContractAddress(Fr.fromHexString(secretKey), Fr.fromHexString(salt));
+    return address.toString();
+  }
+
+  async getTokenInfo(account, token) {
+    const [name, symbol, decimals] = await Promise.all([
+      this.simulate(account, { address: token, method: 'public_get_name' }),
+      this.simulate(account, { address: token, method: 'public_get_symbol' }),
+      this.simulate(account, { address: token, method: 'public_get_decimals' }),
+    ]);
+    return {
+      name: readFieldCompressedString(name),
+      symbol: readFieldCompressedString(symbol),
+      decimals: Number(decimals),
+    };
+  }
+
+  async getBalances(account, token) {
+    const [privateBalance, publicBalance] = await Promise.all([
+      this.simulate(account, { address: token, method: 'balance_of_private', args: [account.address] }),
+      this.simulate(account, { address: token, method: 'balance_of_public', args: [account.address] }),
+    ]);
+    return { private: BigInt(privateBalance), public: BigInt(publicBalance) };
+  }
+
+  async transfer(account, { token, to, amount, isPrivate }, onProgress) {
+    const call = isPrivate
+      ? { address: token, method: 'transfer', args: [to, amount] }
+      : { address: token, method: 'transfer_in_public', args: [account.address, to, amount, 0] };
+    return this.send(account, call, onProgress);
+  }
+
+  async withdrawFromEscrow(operator, { escrow, token, amount, recipient }, onProgress) {
+    const call = { address: escrow, method: 'withdraw', args: [token, amount, recipient], artifact: EscrowContract.artifact };
+    return this.send(operator, call, onProgress);
+  }
+
+  async settleFill() {
+    throw new ChainError(CHAIN_ERRORS.UNSUPPORTED, 'The deployed Orderbook contract cannot settle escrow fills');
+  }
+
+  async isFillSettled() {
+    throw new ChainError(CHAIN_ERRORS.UNSUPPORTED, 'The deployed Orderbook contract cannot settle escrow fills');
+  }
+
+  async getTxStatus(txHash) {
+    let receipt;
+    try {
+      receipt = await withTimeout(this.getNode().getTxReceipt(TxHash.fromString(txHash)), this.timeout, 'Transaction receipt');
+    } catch (error) {
+      throw new ChainError(CHAIN_ERRORS.UNAVAILABLE, `Aztec node unavailable: ${error.message}`);
+    }
+    switch (receipt.status) {
+      case TxStatus.PENDING:
+        return { status: TX_STATUS.SENT, blockNumber: null };
+      case TxStatus.SUCCESS:
+        return { status: TX_STATUS.MINED, blockNumber: receipt.blockNumber ?? null };
+      default:
+        // Dropped, or mined with its app logic or teardown reverted
+        return { status: TX_STATUS.FAILED, blockNumber: receipt.blockNumber ?? null };
+    }
+  }
+
+  async simulate(account, { address, method, args = [], artifact }) {
+    try {
+      const from = await this.getAccount(account);
+      const contract = await this.getContract(address, artifact);
+      return await contract.methods[method](...args).simulate({ from });
+    } catch (error) {
+      throw toChainError(error);
+    }
+  }
+
+  async send(account, { address, method, args = [], artifact }, onProgress = () => {}) {
+    let txHash = null;
+    try {
+      const from = await this.getAccount(account);
+      const contract = await this.getContract(address, artifact);
+      const interaction = contract.methods[method](...args);
+
+      // Simulating first surfaces reverts before any time is spent proving
+      onProgress('simulating');
+      await interaction.simulate({ from });
+
+      // The hash is known once the proof is built and the node accepts the transaction
+      onProgress('proving');
+      const sent = interaction.send({ from, fee: this.feeOptions() });
+      txHash = (await sent.getTxHash()).toString();
+      onProgress('sent', { txHash });
+
+      const receipt = await sent.wait();
+      return { txHash, blockNumber: receipt.blockNumber };
+    } catch (error) {
+      // Once the node holds the transaction a retry would send it twice
+      const chainError = toChainError(error);
+      if (txHash && chainError.code === CHAIN_ERRORS.UNAVAILABLE) {
+        throw new ChainError(CHAIN_ERRORS.UNCONFIRMED, `Transaction ${txHash} was sent but could not be confirmed: ${error.message}`);
+      }
+      throw chainError;
+    }
+  }
+}
@@ -0,0 +1,114 @@
+// Chain Adapters
+// Everything the API needs from the Aztec network sits behind one interface,
+// so the server can run against devnet or a deterministic in-memory chain.
+// Select the implementation with CHAIN_ADAPTER=aztec (default) or mock.
+
+/**
+ * @typedef {object} ChainAccount
+ * @property {string} address Account address
+ * @property {string} secretKey Account secret key (hex)
+ * @property {string} salt Salt the address was derived with (hex)
+ */
+
+/**
+ * @typedef {object} TxResult
+ * @property {string} txHash
+ * @property {number} blockNumber Block the transaction was mined in
+ */
+
+/**
+ * Called as a transaction reaches each step before it is mined
+ * @callback TxProgress
+ * @param {'simulating' | 'proving' | 'sent'} status
+ * @param {{ txHash?: string }} [update] The hash, once the transaction is sent
+ */
+
+/**
+ * @typedef {object} ContractCall
+ * @property {string} address Contract address
+ * @property {string} method Function name
+ * @property {unknown[]} [args] Function arguments
+ * @property {object} [artifact] Contract artifact (devnet only; known tokens need none)
+ */
+
+/**
+ * @typedef {object} Settlement
+ * @property {string} orderBook OrderBook contract address
+ * @property {string} escrow Escrow contract holding both sides' funds
+ * @property {string} fillId Off-chain fill being settled
+ * @property {string} buyer
+ * @property {string} seller
+ * @property {string} baseToken Token the buyer receives
+ * @property {bigint} baseAmount In the base token's own decimals
+ * @property {string} quoteToken Token the seller receives
+ * @property {bigint} quoteAmount Notional, in the quote token's own decimals
+ * @property {bigint} buyerFee Quote paid on top of the notional
+ * @property {bigint} sellerFee Quote kept back from the notional
+ * @property {string} feeRecipient Account the escrow pays both fees to
+ */
+
+/**
+ * @typedef {object} ChainAdapter
+ * @property {string} name 'aztec' or 'mock'
+ * @property {boolean} canSettle Whether settleFill is available
+ * @property {() => Promise<{ nodeVersion: string, l1ChainId: number, rollupVersion: number }>} getNodeInfo
+ * @property {() => Promise<{ latest: number, proven: number, finalized: number }>} getBlockTips
+ * @property {(secretKey: string, salt: string) => Promise<string>} deriveAddress
+ * @property {(account: ChainAccount, token: string) => Promise<{ name: string, symbol: string, decimals: number }>} getTokenInfo
+ * @property {(account: ChainAccount, token: string) => Promise<{ private: bigint, public: bigint }>} getBalances
+ * @property {(account: ChainAccount, transfer: { token: string, to: string, amount: bigint, isPrivate: boolean }, onProgress?: TxProgress) => Promise<TxResult>} transfer
+ * @property {(account: ChainAccount, call: ContractCall) => Promise<unknown>} simulate Run a call without sending it
+ * @property {(account: ChainAccount, call: ContractCall, onProgress?: TxProgress) => Promise<TxResult>} send Send a call and wait for it to be mined
+ * @property {(operator: ChainAccount, withdrawal: { escrow: string, token: string, amount: bigint, recipient: string }, onProgress?: TxProgress) => Promise<TxResult>} withdrawFromEscrow
+ *   Release privately held escrow funds; only the escrow contract's owner may call it
+ * @property {(operator: ChainAccount, settlement: Settlement, onProgress?: TxProgress) => Promise<TxResult>} settleFill
+ *   Record a matched fill on the OrderBook contract; only the escrow contract's owner may call it
+ * @property {(operator: ChainAccount, query: { orderBook: string, fillId: string }) => Promise<boolean>} isFillSettled
+ * @property {(txHash: string) => Promise<{ status: 'sent' | 'mined' | 'failed', blockNumber: number | null }>} getTxStatus
+ *   Where a sent transaction stands: still pending, mined, or reverted or dropped
+ */
+
+// UNAVAILABLE failures never reached the chain and are safe to retry.
+// UNCONFIRMED ones were sent but their outcome is unknown: retrying would
+// send the transaction again, so it must be looked up by hash instead.
+export const CHAIN_ERRORS = {
+  UNAVAILABLE: 'UNAVAILABLE',
+  INSUFFICIENT_BALANCE: 'INSUFFICIENT_BALANCE',
+  REVERTED: 'REVERTED',
+  UNCONFIRMED: 'UNCONFIRMED',
+  UNSUPPORTED: 'UNSUPPORTED',
+};
+
+export class ChainError extends Error {
+  /**
+   * @param {string} code One of CHAIN_ERRORS
+   * @param {string} message Human readable message
+   */
+  constructor(code, message) {
+    super(message);
+    this.name = 'ChainError';
+    this.code = code;
+  }
+}
+
+/**
+ * Create the chain adapter for this process. Implementations are imported
+ * lazily so the mock never loads the aztec.js proving stack.
+ * @param {string} [kind] 'aztec' or 'mock'
+ * @param {object} [options] Passed to the adapter constructor
+ * @returns {Promise<ChainAdapter>}
+ */
+export async function createChainAdapter(kind = 'aztec', options = {}) {
+  switch (kind) {
+    case 'aztec': {
+      const { AztecChain } = await import('./aztec.js');
+      return new AztecChain(options);
+    }
+    case 'mock': {
+      const { MockChain } = await import('./mock.js');
+      return new MockChain(options);
+    }
+    default:
+      throw new Error(`Unknown chain adapter "${kind}" (expected "aztec" or "mock")`);
+  }
+}
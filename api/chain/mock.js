@@ -0,0 +1,302 @@
+// Mock Chain Adapter
+// A deterministic in-memory chain for running the API without a network.
+// Addresses are hashes of (secret, salt), every transaction mines one block,
+// and tokens implement the subset of the Aztec Token contract the app uses.
+// The escrow and order book contracts are stand-ins deployed by the server.
+// Nothing is persisted: balances reset when the process restarts.
+
+import crypto from 'crypto';
+import { ChainError, CHAIN_ERRORS } from './index.js';
+import { toUnits } from '../decimal.js';
+import { TX_STATUS } from '../../shared/contract.mjs';
+
+const DEFAULT_TOKEN = {
+  name: 'Dark Market Token',
+  symbol: 'DMT',
+  decimals: 18,
+};
+
+function sha256(value) {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function getBalance(state, token, owner) {
+  let holders = state.balances.get(token);
+  if (!holders) {
+    holders = new Map();
+    state.balances.set(token, holders);
+  }
+  let balance = holders.get(owner);
+  if (!balance) {
+    balance = { private: 0n, public: 0n };
+    holders.set(owner, balance);
+  }
+  return balance;
+}
+
+function debit(balance, kind, amount) {
+  if (balance[kind] < amount) {
+    throw new ChainError(CHAIN_ERRORS.INSUFFICIENT_BALANCE, 'Insufficient balance');
+  }
+  balance[kind] -= amount;
+}
+
+// Handlers receive ({ from, state, token }, ...args) and may mutate state
+const TOKEN_METHODS = {
+  balance_of_private: ({ state, token }, owner) => getBalance(state, token.address, owner).private,
+  balance_of_public: ({ state, token }, owner) => getBalance(state, token.address, owner).public,
+  public_get_name: ({ token }) => token.name,
+  public_get_symbol: ({ token }) => token.symbol,
+  public_get_decimals: ({ token }) => token.decimals,
+
+  transfer: ({ from, state, token }, to, amount) => {
+    debit(getBalance(state, token.address, from), 'private', BigInt(amount));
+    getBalance(state, token.address, to).private += BigInt(amount);
+  },
+
+  transfer_in_public: ({ from, state, token }, owner, to, amount) => {
+    if (owner !== from) {
+      throw new ChainError(CHAIN_ERRORS.REVERTED, 'Mock chain does not support authwits');
+    }
+    debit(getBalance(state, token.address, owner), 'public', BigInt(amount));
+    getBalance(state, token.address, to).public += BigInt(amount);
+  },
+
+  transfer_to_private: ({ from, state, token }, to, amount) => {
+    debit(getBalance(state, token.address, from), 'public', BigInt(amount));
+    getBalance(state, token.address, to).private += BigInt(amount);
+  },
+
+  transfer_to_public: ({ from, state, token }, owner, to, amount) => {
+    if (owner !== from) {
+      throw new ChainError(CHAIN_ERRORS.REVERTED, 'Mock chain does not support authwits');
+    }
+    debit(getBalance(state, token.address, owner), 'private', BigInt(amount));
+    getBalance(state, token.address, to).public += BigInt(amount);
+  },
+
+  // Unrestricted, so tests can fund accounts without an admin
+  mint_to_private: ({ state, token }, to, amount) => {
+    getBalance(state, token.address, to).private += BigInt(amount);
+  },
+
+  mint_to_public: ({ state, token }, to, amount) => {
+    getBalance(state, token.address, to).public += BigInt(amount);
+  },
+};
+
+export class MockChain {
+  /**
+   * @param {object} options
+   * @param {{ address: string, name: string, symbol: string, decimals: number }[]} [options.tokens] Tokens to deploy
+   * @param {string} [options.funding] Private and public balance (in whole tokens) given to each new account
+   * @param {number} [options.stepDelay] Milliseconds each transaction spends in every step before mining
+   */
+  constructor({ tokens = [], funding = '0', stepDelay = 0 } = {}) {
+    this.name = 'mock';
+    this.canSettle = true;
+    this.funding = funding;
+    this.stepDelay = stepDelay;
+    this.blockNumber = 0;
+    this.txCount = 0;
+    this.funded = new Set();
+    // txHash -> block number, for every transaction mined since startup
+    this.mined = new Map();
+    this.state = { balances: new Map(), settlements: new Map() };
+    this.contracts = new Map();
+    tokens.forEach(({ address, name, symbol, decimals }) => this.deployToken(address, { name, symbol, decimals }));
+  }
+
+  /**
+   * Deploy a Token contract at a fixed address
+   * @param {string} address
+   * @param {{ name: string, symbol: string, decimals: number }} [metadata]
+   */
+  deployToken(address, metadata = DEFAULT_TOKEN) {
+    const token = { address, ...metadata };
+    this.contracts.set(address, { methods: TOKEN_METHODS, token });
+  }
+
+  /**
+   * Deploy an Escrow contract holding private balances at its own address
+   * @param {string} address
+   * @param {string} owner The only account allowed to withdraw
+   */
+  deployEscrow(address, owner) {
+    this.registerContract(address, {
+      withdraw: ({ from, state }, token, amount, recipient) => {
+        if (from !== owner) {
+          throw new ChainError(CHAIN_ERRORS.REVERTED, 'Only the escrow owner can withdraw');
+        }
+        debit(getBalance(state, token, address), 'private', BigInt(amount));
+        getBalance(state, token, recipient).private += BigInt(amount);
+      },
+    });
+  }
+
+  /**
+   * Deploy an OrderBook contract that records settled fills, once each, and
+   * pays their fees out of escrow
+   * @param {string} address
+   * @param {string} owner The only account allowed to settle
+   * @param {string} escrow Escrow whose holdings must cover each fill
+   */
+  deployOrderBook(address, owner, escrow) {
+    this.registerContract(address, {
+      settle: ({ from, state }, fillId, buyer, seller, baseToken, baseAmount, quoteToken, quoteAmount, buyerFee, sellerFee, feeRecipient) => {
+        if (from !== owner) {
+          throw new ChainError(CHAIN_ERRORS.REVERTED, 'Only the escrow owner can settle');
+        }
+        if (state.settlements.has(fillId)) {
+          throw new ChainError(CHAIN_ERRORS.REVERTED, `Fill ${fillId} is already settled`);
+        }
+        const quoteHeld = getBalance(state, quoteToken, escrow);
+        if (getBalance(state, baseToken, escrow).private < BigInt(baseAmount)
+          || quoteHeld.private < BigInt(quoteAmount) + BigInt(buyerFee)) {
+          throw new ChainError(CHAIN_ERRORS.REVERTED, 'Escrow holdings do not cover the fill');
+        }
+        // Trades move funds between accounts inside escrow; only the fees leave it
+        const fees = BigInt(buyerFee) + BigInt(sellerFee);
+        quoteHeld.private -= fees;
+        getBalance(state, quoteToken, feeRecipient).private += fees;
+        state.settlements.set(fillId, { buyer, seller, baseToken, baseAmount, quoteToken, quoteAmount, buyerFee, sellerFee, feeRecipient });
+      },
+      is_settled: ({ state }, fillId) => state.settlements.has(fillId),
+    });
+  }
+
+  /**
+   * Deploy an arbitrary contract from handler functions
+   * @param {string} address
+   * @param {Record<string, Function>} methods Handlers called as (context, ...args)
+   */
+  registerContract(address, methods) {
+    this.contracts.set(address, { methods, token: null });
+  }
+
+  // Run a handler against a copy of the state so failures leave no trace
+  execute(account, { address, method, args = [] }) {
+    const contract = this.contracts.get(address);
+    if (!contract) {
+      throw new ChainError(CHAIN_ERRORS.REVERTED, `No contract deployed at ${address}`);
+    }
+    const handler = contract.methods[method];
+    if (!handler) {
+      throw new ChainError(CHAIN_ERRORS.UNSUPPORTED, `Mock contract has no method ${method}`);
+    }
+
+    const state = structuredClone(this.state);
+    const result = handler({ from: account.address, state, token: contract.token }, ...args);
+    return { state, result };
+  }
+
+  mine(method) {
+    this.blockNumber += 1;
+    this.txCount += 1;
+    const tx = {
+      txHash: `0x${sha256(`${this.blockNumber}:${this.txCount}:${method}`)}`,
+      blockNumber: this.blockNumber,
+    };
+    this.mined.set(tx.txHash, tx.blockNumber);
+    return tx;
+  }
+
+  async getNodeInfo() {
+    return { nodeVersion: 'mock', l1ChainId: 31337, rollupVersion: 1 };
+  }
+
+  async getBlockTips() {
+    return { latest: this.blockNumber, proven: this.blockNumber, finalized: this.blockNumber };
+  }
+
+  async deriveAddress(secretKey, salt) {
+    const address = `0x${sha256(`${secretKey.toLowerCase()}:${salt.toLowerCase()}`)}`;
+
+    // Fund each account once, the first time it connects
+    if (!this.funded.has(address)) {
+      this.funded.add(address);
+      for (const { token } of this.contracts.values()) {
+        if (!token) continue;
+        const amount = toUnits(this.funding, token.decimals);
+        const balance = getBalance(this.state, token.address, address);
+        balance.private += amount;
+        balance.public += amount;
+      }
+    }
+    return address;
+  }
+
+  async getTokenInfo(account, token) {
+    const contract = this.contracts.get(token);
+    if (!contract?.token) {
+      throw new ChainError(CHAIN_ERRORS.REVERTED, `No token deployed at ${token}`);
+    }
+    const { name, symbol, decimals } = contract.token;
+    return { name, symbol, decimals };
+  }
+
+  async getBalances(account, token) {
+    return {
+      private: await this.simulate(account, { address: token, method: 'balance_of_private', args: [account.address] }),
+      public: await this.simulate(account, { address: token, method: 'balance_of_public', args: [account.address] }),
+    };
+  }
+
+  async transfer(account, { token, to, amount, isPrivate }, onProgress) {
+    const call = isPrivate
+      ? { address: token, method: 'transfer', args: [to, amount] }
+      : { address: token, method: 'transfer_in_public', args: [account.address, to, amount, 0] };
+    return this.send(account, call, onProgress);
+  }
+
+  async withdrawFromEscrow(operator, { escrow, token, amount, recipient }, onProgress) {
+    return this.send(operator, { address: escrow, method: 'withdraw', args: [token, amount, recipient] }, onProgress);
+  }
+
+  async settleFill(operator, settlement, onProgress) {
+    const { orderBook, fillId, buyer, seller, baseToken, baseAmount, quoteToken, quoteAmount, buyerFee, sellerFee, feeRecipient } = settlement;
+    const args = [fillId, buyer, seller, baseToken, baseAmount, quoteToken, quoteAmount, buyerFee, sellerFee, feeRecipient];
+    return this.send(operator, { address: orderBook, method: 'settle', args }, onProgress);
+  }
+
+  async isFillSettled(operator, { orderBook, fillId }) {
+    return this.simulate(operator, { address: orderBook, method: 'is_settled', args: [fillId] });
+  }
+
+  // Transactions mine as they are sent, so any hash this process did not mine
+  // belongs to a chain that was lost when an earlier process exited
+  async getTxStatus(txHash) {
+    const blockNumber = this.mined.get(txHash);
+    return blockNumber === undefined
+      ? { status: TX_STATUS.FAILED, blockNumber: null }
+      : { status: TX_STATUS.MINED, blockNumber };
+  }
+
+  async simulate(account, call) {
+    return this.execute(account, call).result;
+  }
+
+  async send(account, call, onProgress = () => {}) {
+    onProgress('simulating');
+    this.execute(account, call);
+    await this.wait();
+
+    onProgress('proving');
+    await this.wait();
+
+    // Execute again: other transactions may have mined while this one was proving
+    const { state } = this.execute(account, call);
+    this.state = state;
+    const tx = this.mine(call.method);
+    onProgress('sent', { txHash: tx.txHash });
+    await this.wait();
+    return tx;
+  }
+
+  // Stand-in for proving and block time, so clients can watch each step
+  async wait() {
+    if (this.stepDelay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.stepDelay));
+    }
+  }
+}
@@ -0,0 +1,63 @@
+// Fixed-point decimal helpers
+// Amounts and prices travel as decimal strings and are held as BigInt units
+// with 18 decimals so matching never accumulates floating point error.
+
+export const DECIMALS = 18;
+export const ONE = 10n ** BigInt(DECIMALS);
+
+const DECIMAL_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * Parse a non-negative decimal string (or number) into BigInt units
+ * @param {string|number} value
+ * @param {number} [decimals] Decimals to scale by (e.g. a token's own)
+ * @returns {bigint}
+ */
+export function toUnits(value, decimals = DECIMALS) {
+  const str = String(value).trim();
+  if (!DECIMAL_PATTERN.test(str)) {
+    throw new Error(`Invalid decimal value: ${value}`);
+  }
+
+  const [whole, fraction = ''] = str.split('.');
+  if (fraction.length > decimals) {
+    throw new Error(`Too many decimal places: ${value}`);
+  }
+
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
+
+/**
+ * Format BigInt units as a decimal string without trailing zeros
+ * @param {bigint} units
+ * @param {number} [decimals] Decimals the units are scaled by (e.g. a token's own)
+ * @returns {string}
+ */
+export function fromUnits(units, decimals = DECIMALS) {
+  const scale = 10n ** BigInt(decimals);
+  const negative = units < 0n;
+  const abs = negative ? -units : units;
+  const whole = abs / scale;
+  const fraction = (abs % scale).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Multiply two unit values (e.g. amount * price)
+ * @param {bigint} a
+ * @param {bigint} b
+ * @returns {bigint}
+ */
+export function mulUnits(a, b) {
+  return (a * b) / ONE;
+}
+
+/**
+ * Divide two unit values (e.g. notional / amount)
+ * @param {bigint} a
+ * @param {bigint} b
+ * @returns {bigint}
+ */
+export function divUnits(a, b) {
+  return (a * ONE) / b;
+}
@@ -0,0 +1,89 @@
+// Error Responses
+// Maps thrown errors onto the structured { success: false, error } envelope
+// defined in shared/contract.mjs.
+
+import { ERROR_CODES, ValidationError, parse } from '../shared/contract.mjs';
+import { ChainError, CHAIN_ERRORS } from './chain/index.js';
+
+// HTTP status and API error code for each chain adapter failure
+const CHAIN_ERROR_RESPONSES = {
+  [CHAIN_ERRORS.UNAVAILABLE]: [502, ERROR_CODES.NODE_UNAVAILABLE],
+  [CHAIN_ERRORS.INSUFFICIENT_BALANCE]: [409, ERROR_CODES.INSUFFICIENT_BALANCE],
+  [CHAIN_ERRORS.REVERTED]: [422, ERROR_CODES.TX_REVERTED],
+  [CHAIN_ERRORS.UNCONFIRMED]: [504, ERROR_CODES.TX_UNCONFIRMED],
+  [CHAIN_ERRORS.UNSUPPORTED]: [501, ERROR_CODES.NOT_SUPPORTED],
+};
+
+export class ApiError extends Error {
+  /**
+   * @param {number} status HTTP status code
+   * @param {string} code One of ERROR_CODES
+   * @param {string} message Human readable message
+   */
+  constructor(status, code, message) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * Validate a request payload, surfacing failures as a 400 response
+ * @param {object} schema Schema from shared/contract.mjs
+ * @param {unknown} value Request body or query
+ */
+export function validate(schema, value) {
+  return parse(schema, value ?? {});
+}
+
+/**
+ * Send an error as a structured envelope with a matching HTTP status
+ */
+export function sendError(res, error) {
+  if (error instanceof ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: { code: ERROR_CODES.VALIDATION_ERROR, message: error.message, details: error.issues },
+    });
+  }
+
+  // Raised by express.json() when the body is not valid JSON
+  if (error.type === 'entity.parse.failed') {
+    return res.status(400).json({
+      success: false,
+      error: { code: ERROR_CODES.VALIDATION_ERROR, message: 'Malformed JSON body' },
+    });
+  }
+
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({
+      success: false,
+      error: { code: error.code, message: error.message },
+    });
+  }
+
+  if (error instanceof ChainError) {
+    const [status, code] = CHAIN_ERROR_RESPONSES[error.code];
+    return res.status(status).json({
+      success: false,
+      error: { code, message: error.message },
+    });
+  }
+
+  console.error('Unhandled error:', error);
+  return res.status(500).json({
+    success: false,
+    error: { code: ERROR_CODES.INTERNAL_ERROR, message: error.message },
+  });
+}
+
+/**
+ * Express error middleware for errors thrown outside route handlers
+ */
+export function errorHandler(error, req, res, next) {
+  if (res.headersSent) {
+    return next(error);
+  }
+  sendError(res, error);
+}
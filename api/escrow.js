@@ -0,0 +1,246 @@
+// Escrow Ledger
+// What each account holds in the escrow contract, per token, in engine
+// units. Deposits are credited once their transfer mines; withdrawals are
+// debited as soon as they are requested so the funds cannot be traded while
+// the transaction is in flight, and refunded if it fails. A movement whose
+// transaction reached the node stays pending until the chain says whether
+// it mined. Fills move funds between the buyer and seller inside escrow,
+// and move them back if their settlement fails.
+
+import { EventEmitter } from 'events';
+import { toUnits, fromUnits, mulUnits } from './decimal.js';
+import { ESCROW_STATUS, TX_KINDS } from '../shared/contract.mjs';
+import { getMarket } from '../shared/markets.mjs';
+
+const DEFAULT_LIST_LIMIT = 20;
+
+// Balances go negative only when orders placed before escrow existed fill
+function parseBalance(amount) {
+  return amount.startsWith('-') ? -toUnits(amount.slice(1)) : toUnits(amount);
+}
+
+/**
+ * Serialize an internal movement into its JSON shape
+ * @param {object} movement Internal movement with a BigInt amount
+ * @returns {object} Movement with a decimal string amount
+ */
+export function serializeMovement(movement) {
+  return {
+    id: movement.id,
+    kind: movement.kind,
+    token: movement.token,
+    amount: fromUnits(movement.amount),
+    status: movement.status,
+    transactionId: movement.transactionId,
+    txHash: movement.txHash,
+    error: movement.error,
+    createdAt: movement.createdAt,
+    updatedAt: movement.updatedAt,
+  };
+}
+
+/**
+ * Funds an open order could still spend, counting the higher of the two fees
+ * since a resting order may yet trade as either side
+ * @param {object} order Internal order
+ * @param {number} feeBps Highest fee rate, in basis points
+ * @returns {{ token: string, amount: bigint }} Token symbol and units reserved
+ */
+export function orderReservation(order, feeBps) {
+  const { base, quote } = getMarket(order.market);
+  const remaining = order.amount - order.filled;
+  if (!order.isBuy) {
+    return { token: base, amount: remaining };
+  }
+  const notional = mulUnits(remaining, order.price);
+  return { token: quote, amount: notional + (notional * BigInt(feeBps)) / 10000n };
+}
+
+/**
+ * Emits 'balance' with (owner, token, units) whenever a balance changes and
+ * 'movement' whenever a deposit or withdrawal is created or settles.
+ */
+export class EscrowLedger extends EventEmitter {
+  /**
+   * @param {object} [persisted]
+   * @param {{ owner: string, token: string, amount: string }[]} [persisted.balances]
+   * @param {object[]} [persisted.movements] Serialized movements plus their owner
+   */
+  constructor({ balances = [], movements = [] } = {}) {
+    super();
+    this.sequence = 0;
+    // `${owner}:${token}` -> units
+    this.balances = new Map(balances.map(({ owner, token, amount }) => [`${owner}:${token}`, parseBalance(amount)]));
+    // Movements recorded before hashes were kept have none
+    this.movements = new Map(movements.map((data) => [data.id, { ...data, txHash: data.txHash ?? null, amount: toUnits(data.amount) }]));
+  }
+
+  /**
+   * Units of a token an account holds in escrow
+   * @param {string} owner
+   * @param {string} token Token symbol
+   * @returns {bigint}
+   */
+  getBalance(owner, token) {
+    return this.balances.get(`${owner}:${token}`) ?? 0n;
+  }
+
+  adjust(owner, token, delta) {
+    const next = this.getBalance(owner, token) + delta;
+    this.balances.set(`${owner}:${token}`, next);
+    this.emit('balance', owner, token, next);
+  }
+
+  /**
+   * Record a deposit whose transfer is about to be sent; credited by complete()
+   * @param {string} owner
+   * @param {string} token Token symbol
+   * @param {bigint} amount Units
+   * @returns {object} The pending movement
+   */
+  deposit(owner, token, amount) {
+    return this.create(owner, TX_KINDS.DEPOSIT, token, amount);
+  }
+
+  /**
+   * Debit a withdrawal up front; fail() refunds it
+   * @param {string} owner
+   * @param {string} token Token symbol
+   * @param {bigint} amount Units
+   * @returns {object} The pending movement
+   */
+  withdraw(owner, token, amount) {
+    const movement = this.create(owner, TX_KINDS.WITHDRAW, token, amount);
+    this.adjust(owner, token, -amount);
+    return movement;
+  }
+
+  create(owner, kind, token, amount) {
+    const now = Date.now();
+    const movement = {
+      id: `escrow_${now}_${++this.sequence}`,
+      owner,
+      kind,
+      token,
+      amount,
+      status: ESCROW_STATUS.PENDING,
+      transactionId: null,
+      txHash: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.movements.set(movement.id, movement);
+    this.emit('movement', movement);
+    return movement;
+  }
+
+  /**
+   * Link a movement to the transaction that carries it out
+   * @param {string} id Movement id
+   * @param {string} transactionId
+   */
+  attach(id, transactionId) {
+    this.update(id, { transactionId });
+  }
+
+  /**
+   * Record the hash of a movement's transaction once the node accepts it
+   * @param {string} id Movement id
+   * @param {string} txHash
+   */
+  markSent(id, txHash) {
+    this.update(id, { txHash });
+  }
+
+  /**
+   * @param {string} id Movement id
+   * @returns {object | undefined} The internal movement
+   */
+  get(id) {
+    return this.movements.get(id);
+  }
+
+  /**
+   * Movements whose transaction has not settled, e.g. those interrupted by a restart
+   * @returns {object[]} Internal movements
+   */
+  getPending() {
+    return [...this.movements.values()].filter((movement) => movement.status === ESCROW_STATUS.PENDING);
+  }
+
+  /**
+   * Settle a movement whose transaction mined, crediting deposits
+   * @param {string} id Movement id
+   */
+  complete(id) {
+    const movement = this.update(id, { status: ESCROW_STATUS.COMPLETED });
+    if (movement?.kind === TX_KINDS.DEPOSIT) {
+      this.adjust(movement.owner, movement.token, movement.amount);
+    }
+  }
+
+  /**
+   * Settle a movement whose transaction failed, refunding withdrawals
+   * @param {string} id Movement id
+   * @param {string} error Why the transaction failed
+   */
+  fail(id, error) {
+    const movement = this.update(id, { status: ESCROW_STATUS.FAILED, error });
+    if (movement?.kind === TX_KINDS.WITHDRAW) {
+      this.adjust(movement.owner, movement.token, movement.amount);
+    }
+  }
+
+  // Returns the movement, or null if it is unknown or already settled
+  update(id, changes) {
+    const movement = this.movements.get(id);
+    if (!movement || movement.status !== ESCROW_STATUS.PENDING) return null;
+    Object.assign(movement, changes, { updatedAt: Date.now() });
+    this.emit('movement', movement);
+    return movement;
+  }
+
+  /**
+   * Move a fill's base and quote amounts between buyer and seller, less the
+   * fee each side pays
+   * @param {object} fill Internal fill with BigInt fields
+   */
+  applyFill(fill) {
+    this.moveFill(fill, 1n);
+  }
+
+  /**
+   * Give back what applyFill moved, when the fill's settlement fails
+   * @param {object} fill Internal fill with BigInt fields
+   */
+  revertFill(fill) {
+    this.moveFill(fill, -1n);
+  }
+
+  moveFill(fill, direction) {
+    const { base, quote } = getMarket(fill.market);
+    const notional = mulUnits(fill.price, fill.amount);
+    // The taker's side is the fill's side; the maker took the other
+    const [buyer, seller] = fill.isBuy ? [fill.taker, fill.maker] : [fill.maker, fill.taker];
+    const [buyerFee, sellerFee] = fill.isBuy ? [fill.takerFee, fill.makerFee] : [fill.makerFee, fill.takerFee];
+
+    this.adjust(buyer, quote, -(notional + buyerFee) * direction);
+    this.adjust(buyer, base, fill.amount * direction);
+    this.adjust(seller, base, -fill.amount * direction);
+    this.adjust(seller, quote, (notional - sellerFee) * direction);
+  }
+
+  /**
+   * An owner's most recent deposits and withdrawals
+   * @param {string} owner
+   * @param {number} [limit]
+   * @returns {object[]} Internal movements, newest first
+   */
+  listByOwner(owner, limit = DEFAULT_LIST_LIMIT) {
+    return [...this.movements.values()]
+      .filter((movement) => movement.owner === owner)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+  }
+}
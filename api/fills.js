@@ -0,0 +1,149 @@
+// Fills Ledger
+// Every execution the matching engine produces, oldest first, with the fee
+// each side paid. Queries return an account's own fills newest first, seen
+// from that account's side of the trade, a page at a time.
+
+import { toUnits, fromUnits } from './decimal.js';
+import { DEFAULT_MARKET_ID } from '../shared/markets.mjs';
+import { SETTLEMENT_STATUS } from '../shared/contract.mjs';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * One fill as the given account experienced it
+ * @param {object} fill Serialized fill
+ * @param {string} account Maker or taker address
+ * @returns {object} The fill plus `role`, `side` and `fee` for the account
+ */
+export function accountView(fill, account) {
+  const isMaker = fill.maker === account;
+  // The maker sits on the opposite side of the taker
+  const isBuy = isMaker ? !fill.isBuy : fill.isBuy;
+  // The engine no longer matches an owner with itself, but older self-trades
+  // charged the account both fees
+  const isSelfTrade = fill.maker === fill.taker;
+  return {
+    ...fill,
+    role: isMaker ? 'maker' : 'taker',
+    side: isBuy ? 'buy' : 'sell',
+    fee: isSelfTrade ? fromUnits(toUnits(fill.makerFee) + toUnits(fill.takerFee)) : isMaker ? fill.makerFee : fill.takerFee,
+  };
+}
+
+export class FillLedger {
+  /**
+   * @param {object[]} fills Serialized fills restored from storage
+   */
+  constructor(fills = []) {
+    this.fills = [];
+    this.positions = new Map();
+    [...fills]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((fill) => this.record(fill));
+  }
+
+  /**
+   * Append a fill. Fills recorded before fees existed are charged nothing,
+   * those recorded before markets existed belong to the default market, and
+   * those recorded before settlement existed have no settlement status.
+   * @param {object} fill Serialized fill
+   */
+  record(fill) {
+    const entry = {
+      ...fill,
+      market: fill.market ?? DEFAULT_MARKET_ID,
+      makerFee: fill.makerFee ?? '0',
+      takerFee: fill.takerFee ?? '0',
+      settlement: fill.settlement ?? null,
+      settlementTxHash: fill.settlementTxHash ?? null,
+      settlementError: fill.settlementError ?? null,
+    };
+    this.positions.set(entry.id, this.fills.length);
+    this.fills.push(entry);
+  }
+
+  /**
+   * Change a recorded fill, e.g. once it settles
+   * @param {string} id
+   * @param {object} changes
+   * @returns {object} The updated fill
+   */
+  update(id, changes) {
+    const position = this.positions.get(id);
+    this.fills[position] = { ...this.fills[position], ...changes };
+    return this.fills[position];
+  }
+
+  /**
+   * Fills whose settlement has not finished
+   * @returns {object[]} Oldest first
+   */
+  getUnsettled() {
+    return this.fills.filter((fill) => fill.settlement === SETTLEMENT_STATUS.PENDING);
+  }
+
+  /**
+   * Every fill, oldest first
+   * @returns {object[]}
+   */
+  getAll() {
+    return this.fills;
+  }
+
+  /**
+   * Every fill in one market, oldest first
+   * @param {string} market
+   * @returns {object[]}
+   */
+  getMarketFills(market) {
+    return this.fills.filter((fill) => fill.market === market);
+  }
+
+  /**
+   * @param {string} id
+   * @returns {object | undefined} The serialized fill
+   */
+  get(id) {
+    return this.fills[this.positions.get(id)];
+  }
+
+  /**
+   * @param {string} id
+   * @returns {boolean} Whether the ledger holds a fill with this id
+   */
+  has(id) {
+    return this.positions.has(id);
+  }
+
+  /**
+   * A page of an account's fills, newest first
+   * @param {object} query
+   * @param {string} query.account Maker or taker address
+   * @param {string} [query.market] Only fills in this market
+   * @param {number} [query.from] Earliest timestamp (inclusive, ms)
+   * @param {number} [query.to] Latest timestamp (inclusive, ms)
+   * @param {number} [query.limit] Page size
+   * @param {string} [query.cursor] Id of the last fill on the previous page
+   * @returns {{ fills: object[], nextCursor: string|null }}
+   */
+  query({ account, market, from = 0, to = Infinity, limit = DEFAULT_PAGE_SIZE, cursor }) {
+    const size = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    let index = cursor === undefined ? this.fills.length - 1 : this.positions.get(cursor) - 1;
+
+    const page = [];
+    for (; index >= 0 && page.length <= size; index -= 1) {
+      const fill = this.fills[index];
+      if (fill.timestamp < from) break;
+      if (fill.timestamp > to) continue;
+      if (market && fill.market !== market) continue;
+      if (fill.maker !== account && fill.taker !== account) continue;
+      page.push(fill);
+    }
+
+    // One extra match tells us whether another page exists
+    const hasMore = page.length > size;
+    const fills = page.slice(0, size).map((fill) => accountView(fill, account));
+    return { fills, nextCursor: hasMore ? fills[fills.length - 1].id : null };
+  }
+}
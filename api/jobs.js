@@ -0,0 +1,232 @@
+// Proving Jobs
+// Proof-generating work is queued so request handlers return at once and
+// the server proves a bounded number of transactions at a time. Jobs in one
+// lane - by default, the account they run for - run one after another in
+// submission order, since each may spend notes the previous one changes.
+// Transient failures are retried with a growing delay. A job that runs too
+// long is reported as timed out, but since a proof cannot be aborted it
+// keeps its slot and lane until the attempt actually finishes.
+
+import { JOB_STATUS } from '../shared/contract.mjs';
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+const DEFAULT_RETAIN_MS = 60 * 60 * 1000;
+
+export class JobTimeoutError extends Error {
+  /**
+   * @param {number} ms The timeout that elapsed
+   * @param {Promise<any>} attempt The attempt still running, to follow to its real outcome
+   */
+  constructor(ms, attempt) {
+    super(`Timed out after ${Math.round(ms / 1000)}s`);
+    this.name = 'JobTimeoutError';
+    this.attempt = attempt;
+  }
+}
+
+/**
+ * A job's real outcome: a timed out attempt is followed until it finishes
+ * @param {Promise<any>} result Result promise from enqueue()
+ * @returns {Promise<any>}
+ */
+export function finalResult(result) {
+  return result.catch((error) => {
+    if (error instanceof JobTimeoutError) return error.attempt;
+    throw error;
+  });
+}
+
+function isFinished(job) {
+  return job.status === JOB_STATUS.COMPLETED || job.status === JOB_STATUS.FAILED;
+}
+
+export class JobQueue {
+  /**
+   * @param {object} [options]
+   * @param {number} [options.concurrency] Jobs that may run at once
+   * @param {number} [options.timeoutMs] Time allowed for each attempt
+   * @param {number} [options.maxAttempts] Attempts before a transient failure is final
+   * @param {number} [options.retryDelayMs] Delay before the first retry, doubled for each one after
+   * @param {(error: Error) => boolean} [options.isTransient] Which failures are worth retrying
+   * @param {number} [options.retainMs] How long finished jobs stay queryable
+   */
+  constructor({
+    concurrency = DEFAULT_CONCURRENCY,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    isTransient = () => false,
+    retainMs = DEFAULT_RETAIN_MS,
+  } = {}) {
+    this.concurrency = concurrency;
+    this.timeoutMs = timeoutMs;
+    this.maxAttempts = maxAttempts;
+    this.retryDelayMs = retryDelayMs;
+    this.isTransient = isTransient;
+    this.retainMs = retainMs;
+    this.sequence = 0;
+    // id -> entry, for every job still retained
+    this.jobs = new Map();
+    // Entries not yet finished or running, in submission order
+    this.pending = [];
+    this.running = new Set();
+  }
+
+  /**
+   * Queue a job behind the earlier jobs in its lane
+   * @param {string} owner Account the job runs for
+   * @param {string} kind What the job does, e.g. 'transfer'
+   * @param {() => Promise<any>} task The work; called again for each retry
+   * @param {string} [lane] Account whose notes the job spends, when it is not the owner
+   * @returns {{ job: object, result: Promise<any> }} The job record and the task's eventual result, which
+   *   rejects with a JobTimeoutError if the attempt overruns; see finalResult()
+   */
+  enqueue(owner, kind, task, lane = owner) {
+    this.prune();
+
+    const job = {
+      id: `job_${Date.now()}_${++this.sequence}`,
+      kind,
+      status: JOB_STATUS.QUEUED,
+      attempts: 0,
+      queuedAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      error: null,
+    };
+    const entry = { owner, lane, job, task, order: this.sequence, notBefore: 0 };
+    const result = new Promise((resolve, reject) => {
+      entry.resolve = resolve;
+      entry.reject = reject;
+    });
+
+    this.jobs.set(job.id, entry);
+    this.pending.push(entry);
+    this.pump();
+    return { job, result };
+  }
+
+  /**
+   * Look up a job
+   * @param {string} id
+   * @returns {{ owner: string, job: object } | undefined}
+   */
+  get(id) {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Queued jobs that will start before this one
+   * @param {object} job
+   * @returns {number | null} 0 when next in line, null unless queued
+   */
+  position(job) {
+    if (job.status !== JOB_STATUS.QUEUED) return null;
+    const index = this.pending.findIndex((entry) => entry.job === job);
+    return index === -1 ? null : index;
+  }
+
+  /**
+   * Job state for API responses
+   * @param {object} job
+   * @returns {object}
+   */
+  serialize(job) {
+    const end = job.finishedAt ?? Date.now();
+    return {
+      ...job,
+      position: this.position(job),
+      elapsedMs: end - job.queuedAt,
+    };
+  }
+
+  // Start every pending job that has a free slot, has no retry delay left,
+  // and whose lane has nothing running or queued ahead of it
+  pump() {
+    const now = Date.now();
+    const blocked = new Set([...this.running].map((entry) => entry.lane));
+
+    for (const entry of [...this.pending]) {
+      if (this.running.size >= this.concurrency) break;
+      if (blocked.has(entry.lane)) continue;
+      blocked.add(entry.lane);
+      if (entry.notBefore > now) continue;
+
+      this.pending.splice(this.pending.indexOf(entry), 1);
+      this.run(entry);
+    }
+  }
+
+  async run(entry) {
+    const { job } = entry;
+    this.running.add(entry);
+    job.status = JOB_STATUS.RUNNING;
+    job.attempts += 1;
+    job.startedAt ??= Date.now();
+
+    const attempt = entry.task();
+    let timer;
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new JobTimeoutError(this.timeoutMs, attempt)), this.timeoutMs);
+    });
+
+    try {
+      const value = await Promise.race([attempt, timeout]);
+      this.finish(entry, JOB_STATUS.COMPLETED, null);
+      entry.resolve(value);
+    } catch (error) {
+      if (error instanceof JobTimeoutError) {
+        // Report the timeout now, but hold the slot and lane until the attempt
+        // settles so the next job in the lane cannot spend the same notes
+        console.warn(`Job ${job.id} timed out; waiting for its attempt to finish`);
+        job.error = error.message;
+        entry.reject(error);
+        await attempt.then(
+          () => this.finish(entry, JOB_STATUS.COMPLETED, null),
+          (cause) => this.finish(entry, JOB_STATUS.FAILED, cause.message)
+        );
+      } else if (this.isTransient(error) && job.attempts < this.maxAttempts) {
+        // Back in line at the front of its lane, once the delay has passed
+        const delay = this.retryDelayMs * 2 ** (job.attempts - 1);
+        console.warn(`Job ${job.id} attempt ${job.attempts} failed (${error.message}); retrying in ${delay}ms`);
+        job.status = JOB_STATUS.QUEUED;
+        job.error = error.message;
+        entry.notBefore = Date.now() + delay;
+        this.insertPending(entry);
+        setTimeout(() => this.pump(), delay);
+      } else {
+        this.finish(entry, JOB_STATUS.FAILED, error.message);
+        entry.reject(error);
+      }
+    } finally {
+      clearTimeout(timer);
+      this.running.delete(entry);
+      this.pump();
+    }
+  }
+
+  finish(entry, status, error) {
+    entry.job.status = status;
+    entry.job.error = error;
+    entry.job.finishedAt = Date.now();
+  }
+
+  // Keep submission order so the retried job still runs before its lane's later ones
+  insertPending(entry) {
+    const index = this.pending.findIndex((other) => other.order > entry.order);
+    this.pending.splice(index === -1 ? this.pending.length : index, 0, entry);
+  }
+
+  // Forget jobs that finished longer ago than the retention window
+  prune() {
+    const cutoff = Date.now() - this.retainMs;
+    for (const [id, { job }] of this.jobs) {
+      if (isFinished(job) && job.finishedAt < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
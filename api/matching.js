@@ -0,0 +1,510 @@
+// Matching Engine
+// Keeps resting bids and asks in price-time priority and matches incoming
+// orders against the opposite side, producing fills for each execution.
+// Order types decide what happens to a remainder: limit and post-only
+// orders rest, market and IOC orders cancel it, and FOK orders never have one.
+// An order that would trade with its owner's own resting order is refused.
+
+import { EventEmitter } from 'events';
+import { toUnits, fromUnits, mulUnits } from './decimal.js';
+import { ORDER_STATUS, ORDER_TYPES, SETTLEMENT_STATUS } from '../shared/contract.mjs';
+import { DEFAULT_MARKET_ID } from '../shared/markets.mjs';
+
+/**
+ * Raised when an order is refused before it touches the book
+ */
+export class OrderRejectedError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'OrderRejectedError';
+  }
+}
+
+/**
+ * Serialize an internal order into the shape the client expects
+ * @param {object} order Internal order with BigInt fields
+ * @returns {object} Order with decimal string fields
+ */
+export function serializeOrder(order) {
+  return {
+    id: order.id,
+    market: order.market,
+    owner: order.owner,
+    type: order.type,
+    isBuy: order.isBuy,
+    amount: fromUnits(order.amount),
+    price: fromUnits(order.price),
+    filled: fromUnits(order.filled),
+    status: order.status,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+  };
+}
+
+/**
+ * Rebuild an internal order from its serialized form
+ * @param {object} data Serialized order plus its arrival `sequence`
+ * @returns {object} Internal order with BigInt fields
+ */
+export function deserializeOrder(data) {
+  return {
+    ...data,
+    // Orders persisted before order types and markets existed
+    type: data.type || ORDER_TYPES.LIMIT,
+    market: data.market || DEFAULT_MARKET_ID,
+    amount: toUnits(data.amount),
+    price: toUnits(data.price),
+    filled: toUnits(data.filled),
+  };
+}
+
+/**
+ * Serialize an internal fill into its JSON shape
+ * @param {object} fill Internal fill with BigInt fields
+ * @returns {object} Fill with decimal string fields
+ */
+export function serializeFill(fill) {
+  return {
+    ...fill,
+    price: fromUnits(fill.price),
+    amount: fromUnits(fill.amount),
+    makerFee: fromUnits(fill.makerFee),
+    takerFee: fromUnits(fill.takerFee),
+  };
+}
+
+/**
+ * Rebuild an internal fill from its serialized form
+ * @param {object} data Serialized fill
+ * @returns {object} Internal fill with BigInt fields
+ */
+export function deserializeFill(data) {
+  return {
+    ...data,
+    price: toUnits(data.price),
+    amount: toUnits(data.amount),
+    makerFee: toUnits(data.makerFee),
+    takerFee: toUnits(data.takerFee),
+  };
+}
+
+// Bids sort best (highest) price first, asks lowest first; ties keep arrival order
+function compareBids(a, b) {
+  if (a.price !== b.price) return a.price > b.price ? -1 : 1;
+  return a.sequence - b.sequence;
+}
+
+function compareAsks(a, b) {
+  if (a.price !== b.price) return a.price < b.price ? -1 : 1;
+  return a.sequence - b.sequence;
+}
+
+// A null taker price (market order) crosses any resting price
+function crosses(taker, maker) {
+  if (taker.price === null) return true;
+  return taker.isBuy ? maker.price <= taker.price : maker.price >= taker.price;
+}
+
+// Fee on a fill's notional value, in quote units
+function feeFor(price, size, bps) {
+  return (mulUnits(price, size) * BigInt(bps)) / 10000n;
+}
+
+// The more conservative of two optional price limits for one side
+function tighterLimit(isBuy, a, b) {
+  if (a === null) return b;
+  if (b === null) return a;
+  if (isBuy) return a < b ? a : b;
+  return a > b ? a : b;
+}
+
+/**
+ * Emits 'order' whenever an order is created or changes fill state, including
+ * when a fill is reverted, 'cancel' when an order is cancelled, 'fill' for
+ * every execution, and 'revert' when a fill is undone.
+ */
+export class OrderBook extends EventEmitter {
+  /**
+   * @param {object} [options]
+   * @param {string} [options.market] Id of the market this book trades
+   * @param {number} [options.makerFeeBps] Fee charged to resting orders, in basis points of notional
+   * @param {number} [options.takerFeeBps] Fee charged to incoming orders, in basis points of notional
+   */
+  constructor({ market = DEFAULT_MARKET_ID, makerFeeBps = 0, takerFeeBps = 0 } = {}) {
+    super();
+    this.market = market;
+    this.makerFeeBps = makerFeeBps;
+    this.takerFeeBps = takerFeeBps;
+    this.bids = [];
+    this.asks = [];
+    this.orders = new Map();
+    this.sequence = 0;
+    // Ids of fills already given back, so a repeated failure is not refunded twice
+    this.reverted = new Set();
+  }
+
+  /**
+   * Submit a new order, matching it against the opposite side
+   * @param {object} params
+   * @param {string} params.owner Owner address
+   * @param {string} [params.type] One of ORDER_TYPES (default limit)
+   * @param {boolean} params.isBuy True for a bid, false for an ask
+   * @param {string} params.amount Decimal amount
+   * @param {string} [params.price] Decimal limit price (omitted for market orders)
+   * @param {string} [params.worstPrice] Slippage guard: no fill executes beyond this price
+   * @returns {{ order: object, fills: object[] }} The taker order and resulting fills
+   * @throws {OrderRejectedError} When the order type's conditions cannot be met
+   */
+  submit({ owner, type = ORDER_TYPES.LIMIT, isBuy, amount, price, worstPrice }) {
+    const isMarket = type === ORDER_TYPES.MARKET;
+    const amountUnits = toUnits(amount);
+    const priceUnits = isMarket ? null : toUnits(price);
+    const worstUnits = worstPrice ? toUnits(worstPrice) : null;
+    if (amountUnits <= 0n) throw new Error('Amount must be greater than zero');
+    if (priceUnits !== null && priceUnits <= 0n) throw new Error('Price must be greater than zero');
+
+    // Matching stops at whichever of the limit and slippage guard is reached first
+    const limit = tighterLimit(isBuy, priceUnits, worstUnits);
+    this.checkConditions({ owner, type, isBuy, amount: amountUnits, price: priceUnits, limit });
+
+    const now = Date.now();
+    this.sequence += 1;
+    const order = {
+      id: `order_${this.market}_${now}_${this.sequence}`,
+      market: this.market,
+      owner,
+      type,
+      isBuy,
+      amount: amountUnits,
+      price: priceUnits,
+      filled: 0n,
+      status: ORDER_STATUS.OPEN,
+      sequence: this.sequence,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.orders.set(order.id, order);
+
+    const fills = this.match(order, limit);
+
+    if (isMarket) {
+      order.price = fills[fills.length - 1].price;
+    }
+
+    if (order.status === ORDER_STATUS.OPEN) {
+      const restable = type === ORDER_TYPES.LIMIT || type === ORDER_TYPES.POST_ONLY;
+      // A remainder stopped by the slippage guard would cross the book if it rested
+      const book = isBuy ? this.asks : this.bids;
+      const stillCrosses = book.length > 0 && crosses(order, book[0]);
+      if (restable && !stillCrosses) {
+        this.rest(order);
+      } else {
+        order.status = ORDER_STATUS.CANCELLED;
+      }
+    }
+
+    this.emit('order', order);
+    for (const fill of fills) {
+      this.emit('order', this.orders.get(fill.makerOrderId));
+      this.emit('fill', fill);
+    }
+
+    return { order, fills };
+  }
+
+  /**
+   * Reject post-only orders that would take liquidity, FOK orders the book
+   * cannot fill in full, market orders with nothing to match within their
+   * slippage guard, and orders that would match their owner's own
+   */
+  checkConditions({ owner, type, isBuy, amount, price, limit }) {
+    const book = isBuy ? this.asks : this.bids;
+    const taker = { isBuy, price };
+    const bounded = { isBuy, price: limit };
+    const opposite = isBuy ? 'ask' : 'bid';
+
+    if (type === ORDER_TYPES.POST_ONLY && book.length > 0 && crosses(taker, book[0])) {
+      throw new OrderRejectedError(
+        `Post-only order would match the best ${opposite} at ${fromUnits(book[0].price)}; it was not placed`
+      );
+    }
+
+    if (type === ORDER_TYPES.MARKET) {
+      if (book.length === 0) {
+        throw new OrderRejectedError(`Market order has no ${opposite}s to match against`);
+      }
+      if (!crosses(bounded, book[0])) {
+        throw new OrderRejectedError(
+          `Best ${opposite} at ${fromUnits(book[0].price)} is beyond the worst acceptable price of ${fromUnits(limit)}`
+        );
+      }
+    }
+
+    if (type === ORDER_TYPES.FOK) {
+      const available = this.getLiquidity(bounded, amount);
+      if (available < amount) {
+        throw new OrderRejectedError(
+          `Fill-or-kill order for ${fromUnits(amount)} cannot be filled in full: only ${fromUnits(available)} available at ${fromUnits(limit)} or better`
+        );
+      }
+    }
+
+    // A self-trade would book both legs to one account and only pay fees
+    let reached = 0n;
+    for (const maker of book) {
+      if (reached >= amount || !crosses(bounded, maker)) break;
+      if (maker.owner === owner) {
+        throw new OrderRejectedError(
+          `Order would match your own ${opposite} at ${fromUnits(maker.price)}; cancel it first`
+        );
+      }
+      reached += maker.amount - maker.filled;
+    }
+  }
+
+  /**
+   * Resting size a taker could match, counting no further than `upTo`
+   * @param {{ isBuy: boolean, price: bigint|null }} taker
+   * @param {bigint} upTo
+   * @returns {bigint}
+   */
+  getLiquidity(taker, upTo) {
+    const book = taker.isBuy ? this.asks : this.bids;
+    let available = 0n;
+    for (const maker of book) {
+      if (available >= upTo || !crosses(taker, maker)) break;
+      available += maker.amount - maker.filled;
+    }
+    return available;
+  }
+
+  /**
+   * Quote units a taker would pay at the resting prices to match up to `upTo`
+   * @param {{ isBuy: boolean, price: bigint|null }} taker
+   * @param {bigint} upTo
+   * @returns {bigint}
+   */
+  getCost(taker, upTo) {
+    const book = taker.isBuy ? this.asks : this.bids;
+    let remaining = upTo;
+    let cost = 0n;
+    for (const maker of book) {
+      if (remaining === 0n || !crosses(taker, maker)) break;
+      const makerRemaining = maker.amount - maker.filled;
+      const size = remaining < makerRemaining ? remaining : makerRemaining;
+      cost += mulUnits(maker.price, size);
+      remaining -= size;
+    }
+    return cost;
+  }
+
+  /**
+   * Load previously persisted orders without emitting events
+   * @param {object[]} orders Internal orders, in any order
+   */
+  restore(orders) {
+    const sorted = [...orders].sort((a, b) => a.sequence - b.sequence);
+    for (const order of sorted) {
+      this.orders.set(order.id, order);
+      if (order.status === ORDER_STATUS.OPEN) {
+        this.rest(order);
+      }
+      this.sequence = Math.max(this.sequence, order.sequence);
+    }
+  }
+
+  /**
+   * Cancel a resting order
+   * @param {string} orderId
+   * @returns {object|null} The cancelled order, or null if it is not open
+   */
+  cancel(orderId) {
+    const order = this.orders.get(orderId);
+    if (!order || order.status !== ORDER_STATUS.OPEN) {
+      return null;
+    }
+
+    const side = order.isBuy ? this.bids : this.asks;
+    const index = side.indexOf(order);
+    if (index !== -1) side.splice(index, 1);
+
+    order.status = ORDER_STATUS.CANCELLED;
+    order.updatedAt = Date.now();
+    this.emit('cancel', order);
+    return order;
+  }
+
+  /**
+   * Undo a fill whose settlement failed. Both orders get the amount back;
+   * a filled order that can rest returns to the book unless it would now
+   * cross it, and any other order cancels the amount it regains.
+   * @param {object} fill Internal fill
+   * @returns {object[]} The orders that changed
+   */
+  revertFill(fill) {
+    if (this.reverted.has(fill.id)) return [];
+    this.reverted.add(fill.id);
+
+    const now = Date.now();
+    const orders = [fill.makerOrderId, fill.takerOrderId]
+      .map((id) => this.orders.get(id))
+      .filter(Boolean);
+
+    for (const order of orders) {
+      order.filled -= fill.amount;
+      order.updatedAt = now;
+      if (order.status !== ORDER_STATUS.FILLED) continue;
+
+      const restable = order.type === ORDER_TYPES.LIMIT || order.type === ORDER_TYPES.POST_ONLY;
+      const book = order.isBuy ? this.asks : this.bids;
+      const wouldCross = book.length > 0 && crosses(order, book[0]);
+      if (restable && !wouldCross) {
+        order.status = ORDER_STATUS.OPEN;
+        this.rest(order);
+      } else {
+        order.status = ORDER_STATUS.CANCELLED;
+      }
+    }
+
+    orders.forEach((order) => this.emit('order', order));
+    this.emit('revert', fill);
+    return orders;
+  }
+
+  getOrder(orderId) {
+    return this.orders.get(orderId) || null;
+  }
+
+  /**
+   * All resting orders, bids first (best to worst) then asks
+   */
+  getOpenOrders() {
+    return [...this.bids, ...this.asks];
+  }
+
+  /**
+   * Aggregate resting size and order count at one price on one side
+   * @param {boolean} isBuy True for the bid side
+   * @param {bigint} price Price in units
+   * @returns {{ price: bigint, amount: bigint, count: number }}
+   */
+  getLevel(isBuy, price) {
+    const side = isBuy ? this.bids : this.asks;
+    let amount = 0n;
+    let count = 0;
+    for (const order of side) {
+      if (order.price === price) {
+        amount += order.amount - order.filled;
+        count += 1;
+      }
+    }
+    return { price, amount, count };
+  }
+
+  /**
+   * Aggregate the book into price levels, best price first on each side
+   * @returns {{ bids: object[], asks: object[] }}
+   */
+  getLevels() {
+    const aggregate = (side) => {
+      const levels = [];
+      for (const order of side) {
+        const last = levels[levels.length - 1];
+        const remaining = order.amount - order.filled;
+        if (last && last.price === order.price) {
+          last.amount += remaining;
+          last.count += 1;
+        } else {
+          levels.push({ price: order.price, amount: remaining, count: 1 });
+        }
+      }
+      return levels;
+    };
+    return { bids: aggregate(this.bids), asks: aggregate(this.asks) };
+  }
+
+  /**
+   * Resting orders belonging to one owner, in book order
+   */
+  getOpenOrdersByOwner(owner) {
+    return this.getOpenOrders().filter((order) => order.owner === owner);
+  }
+
+  /**
+   * Every order ever submitted by an owner, newest first
+   */
+  getOrdersByOwner(owner) {
+    return [...this.orders.values()]
+      .filter((order) => order.owner === owner)
+      .sort((a, b) => b.sequence - a.sequence);
+  }
+
+  match(taker, limit = taker.price) {
+    const book = taker.isBuy ? this.asks : this.bids;
+    const bounded = { isBuy: taker.isBuy, price: limit };
+    const fills = [];
+
+    while (book.length > 0 && taker.filled < taker.amount) {
+      const maker = book[0];
+      if (!crosses(bounded, maker)) break;
+
+      const takerRemaining = taker.amount - taker.filled;
+      const makerRemaining = maker.amount - maker.filled;
+      const size = takerRemaining < makerRemaining ? takerRemaining : makerRemaining;
+      const now = Date.now();
+
+      maker.filled += size;
+      taker.filled += size;
+      maker.updatedAt = now;
+      taker.updatedAt = now;
+
+      if (maker.filled === maker.amount) {
+        maker.status = ORDER_STATUS.FILLED;
+        book.shift();
+      }
+
+      fills.push({
+        id: `fill_${this.market}_${now}_${taker.sequence}_${fills.length}`,
+        market: this.market,
+        makerOrderId: maker.id,
+        takerOrderId: taker.id,
+        maker: maker.owner,
+        taker: taker.owner,
+        isBuy: taker.isBuy,
+        // Executions happen at the resting order's price
+        price: maker.price,
+        amount: size,
+        makerFee: feeFor(maker.price, size, this.makerFeeBps),
+        takerFee: feeFor(maker.price, size, this.takerFeeBps),
+        timestamp: now,
+        settlement: SETTLEMENT_STATUS.PENDING,
+        settlementTxHash: null,
+        settlementError: null,
+      });
+    }
+
+    if (taker.filled === taker.amount) {
+      taker.status = ORDER_STATUS.FILLED;
+    }
+
+    return fills;
+  }
+
+  rest(order) {
+    const side = order.isBuy ? this.bids : this.asks;
+    const compare = order.isBuy ? compareBids : compareAsks;
+
+    // Binary search for the first resting order that sorts after this one
+    let low = 0;
+    let high = side.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (compare(side[mid], order) <= 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    side.splice(low, 0, order);
+  }
+}
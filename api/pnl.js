@@ -0,0 +1,168 @@
+// Profit and Loss
+// Replays an account's fills to measure its trading result per market, in
+// quote token units. Each buy or sell first closes open lots on the other
+// side - the oldest first (FIFO), or all of them at their average price -
+// and realizes the difference; whatever remains opens a new lot. Open lots
+// are marked to the market's last trade price. Fees are counted separately
+// and taken off the net result.
+
+import { toUnits, fromUnits, mulUnits, divUnits } from './decimal.js';
+import { deserializeFill } from './matching.js';
+import { accountView } from './fills.js';
+import { COST_BASIS_METHODS, SETTLEMENT_STATUS } from '../shared/contract.mjs';
+import { getMarket } from '../shared/markets.mjs';
+
+// Longer equity histories are thinned to about this many points
+const MAX_EQUITY_POINTS = 500;
+
+function abs(units) {
+  return units < 0n ? -units : units;
+}
+
+/**
+ * Tracks the open lots of one market and realizes PnL as they close
+ */
+class Position {
+  /**
+   * @param {string} method One of COST_BASIS_METHODS
+   */
+  constructor(method) {
+    this.method = method;
+    // { amount, cost }, oldest first; both are negative for short lots. Lots
+    // carry their total cost so closing part of an averaged lot rounds once
+    this.lots = [];
+    this.realized = 0n;
+    this.fees = 0n;
+    this.trades = 0;
+  }
+
+  /**
+   * @param {bigint} amount Units bought, or negative units sold
+   * @param {bigint} price
+   * @param {bigint} fee Quote units paid
+   */
+  trade(amount, price, fee) {
+    let remaining = amount;
+    while (remaining !== 0n && this.lots.length > 0 && (this.lots[0].amount > 0n) !== (remaining > 0n)) {
+      const lot = this.lots[0];
+      // Carries the lot's sign, so the same formula realizes longs and shorts
+      const closed = abs(remaining) < abs(lot.amount) ? -remaining : lot.amount;
+      const closedCost = closed === lot.amount ? lot.cost : (lot.cost * closed) / lot.amount;
+      this.realized += mulUnits(price, closed) - closedCost;
+      lot.amount -= closed;
+      lot.cost -= closedCost;
+      remaining += closed;
+      if (lot.amount === 0n) this.lots.shift();
+    }
+
+    if (remaining !== 0n) {
+      this.lots.push({ amount: remaining, cost: mulUnits(remaining, price) });
+      if (this.method === COST_BASIS_METHODS.AVERAGE && this.lots.length > 1) {
+        this.lots = [{ amount: this.size(), cost: this.cost() }];
+      }
+    }
+
+    this.fees += fee;
+    this.trades += 1;
+  }
+
+  // Signed units held
+  size() {
+    return this.lots.reduce((sum, lot) => sum + lot.amount, 0n);
+  }
+
+  // Signed quote units paid for the open lots
+  cost() {
+    return this.lots.reduce((sum, lot) => sum + lot.cost, 0n);
+  }
+
+  unrealized(markPrice) {
+    return mulUnits(markPrice, this.size()) - this.cost();
+  }
+}
+
+// Keep every nth point and always the latest one
+function thin(points) {
+  if (points.length <= MAX_EQUITY_POINTS) return points;
+  const step = Math.ceil(points.length / MAX_EQUITY_POINTS);
+  return points.filter((_, index) => index % step === 0 || index === points.length - 1);
+}
+
+/**
+ * Measure an account's PnL from the fill history
+ * @param {object[]} fills Every serialized fill, oldest first
+ * @param {string} account Address whose fills count
+ * @param {string} [method] One of COST_BASIS_METHODS
+ * @returns {{ method: string, assets: object[], totals: object, equity: object[] }} Serialized per PnlResponse
+ */
+export function computePnl(fills, account, method = COST_BASIS_METHODS.FIFO) {
+  // market -> Position, for markets the account traded in
+  const positions = new Map();
+  // market -> last trade price by anyone
+  const marks = new Map();
+  const equity = [];
+
+  const netPnl = () => [...positions].reduce(
+    (sum, [market, position]) => sum + position.realized - position.fees + position.unrealized(marks.get(market)),
+    0n
+  );
+
+  for (const data of fills) {
+    // Reverted fills never happened as far as balances are concerned
+    if (data.settlement === SETTLEMENT_STATUS.FAILED) continue;
+
+    const fill = deserializeFill(data);
+    marks.set(fill.market, fill.price);
+
+    if (fill.maker === account || fill.taker === account) {
+      const view = accountView(data, account);
+      if (!positions.has(fill.market)) positions.set(fill.market, new Position(method));
+      // Both legs of a self-trade cancel out, leaving only the fees
+      const amount = fill.maker === fill.taker ? 0n : fill.amount;
+      positions.get(fill.market).trade(view.side === 'buy' ? amount : -amount, fill.price, toUnits(view.fee));
+    } else if (!positions.get(fill.market)?.size()) {
+      // Someone else's trade only matters when it moves the mark of a held position
+      continue;
+    }
+
+    equity.push({ time: fill.timestamp, netPnl: fromUnits(netPnl()) });
+  }
+
+  const totals = { realizedPnl: 0n, unrealizedPnl: 0n, fees: 0n };
+  const assets = [...positions].map(([market, position]) => {
+    const { base, quote } = getMarket(market);
+    const markPrice = marks.get(market);
+    const size = position.size();
+    const unrealized = position.unrealized(markPrice);
+
+    totals.realizedPnl += position.realized;
+    totals.unrealizedPnl += unrealized;
+    totals.fees += position.fees;
+
+    return {
+      market,
+      token: base,
+      quoteToken: quote,
+      position: fromUnits(size),
+      averageCost: size === 0n ? null : fromUnits(divUnits(position.cost(), size)),
+      markPrice: fromUnits(markPrice),
+      realizedPnl: fromUnits(position.realized),
+      unrealizedPnl: fromUnits(unrealized),
+      fees: fromUnits(position.fees),
+      netPnl: fromUnits(position.realized + unrealized - position.fees),
+      trades: position.trades,
+    };
+  });
+
+  return {
+    method,
+    assets,
+    totals: {
+      realizedPnl: fromUnits(totals.realizedPnl),
+      unrealizedPnl: fromUnits(totals.unrealizedPnl),
+      fees: fromUnits(totals.fees),
+      netPnl: fromUnits(totals.realizedPnl + totals.unrealizedPnl - totals.fees),
+    },
+    equity: thin(equity),
+  };
+}
@@ -1,146 +1,814 @@
 import express from 'express';
 import cors from 'cors';
-import { createAztecNodeClient } from '@aztec/aztec.js/node';
-import { Fr } from '@aztec/foundation/fields';
-import { getSchnorrAccountContractAddress } from '@aztec/accounts/schnorr';
+import { fileURLToPath } from 'url';
+import { OrderBook, OrderRejectedError, serializeOrder, serializeFill, deserializeOrder, deserializeFill } from './matching.js';
+import { Store } from './storage.js';
+import { MarketStream } from './stream.js';
+import { SessionManager } from './sessions.js';
+import { ApiError, validate, sendError, errorHandler } from './errors.js';
+import { createChainAdapter, ChainError, CHAIN_ERRORS } from './chain/index.js';
+import { BalanceCache } from './balances.js';
+import { FillLedger } from './fills.js';
+import { CandleAggregator } from './candles.js';
+import { TransactionTracker } from './transactions.js';
+import { JobQueue } from './jobs.js';
+import { EscrowLedger, serializeMovement, orderReservation } from './escrow.js';
+import { SettlementWorker } from './settlement.js';
+import { computePnl } from './pnl.js';
+import { toUnits, fromUnits } from './decimal.js';
+import {
+  ERROR_CODES,
+  ORDER_STATUS,
+  ORDER_TYPES,
+  TX_KINDS,
+  TX_STATUS,
+  SETTLEMENT_STATUS,
+  ESCROW_STATUS,
+  DEFAULT_ACCOUNT_SALT,
+  EscrowRequest,
+  ConnectWalletRequest,
+  CreateOrderRequest,
+  BalanceRequest,
+  TransferRequest,
+  FillsQuery,
+  PnlQuery,
+  CandlesQuery,
+  MarketQuery,
+  StreamQuery,
+} from '../shared/contract.mjs';
+import { TOKENS, MARKETS, DEFAULT_MARKET_ID } from '../shared/markets.mjs';
+import { NETWORKS, DEFAULT_NETWORK_ID, getNetwork } from '../shared/networks.mjs';
 
 const app = express();
 app.use(cors());
 app.use(express.json());
 
-const PXE_URL = 'https://devnet.aztec-labs.com';
+const CHAIN_ADAPTER = process.env.CHAIN_ADAPTER || 'aztec';
 
-const CONTRACT_ADDRESSES = {
-  token: '0x2731c1024ce94a508083fe50ae1b22a1274f0f7a4c7157e294899b366ea55816',
-  escrow: '0x161fcf08c79d512031323bee0f49381ade4799a3b6b7b3470e9c5a43af9eebc2',
-  orderbook: '0x23d2149ea91babceacc6e98fe5bef2dfd875622516ba182da53cb7f1b466aaac'
-};
+const NETWORK = getNetwork(process.env.NETWORK || DEFAULT_NETWORK_ID);
+if (!NETWORK) {
+  throw new Error(`Unknown network "${process.env.NETWORK}" (expected one of ${NETWORKS.map(({ id }) => id).join(', ')})`);
+}
+if (CHAIN_ADAPTER === 'aztec' && !NETWORK.contracts) {
+  throw new Error(`${NETWORK.name} has no deployed contracts in shared/networks.mjs; run it with CHAIN_ADAPTER=mock`);
+}
+
+// The mock chain deploys the market tokens itself, so it needs no contract set
+const DEFAULT_TOKEN = NETWORK.contracts?.token ?? TOKENS.DMT.address;
+
+const DATA_FILE = process.env.DATA_FILE || fileURLToPath(new URL('./data/market.jsonl', import.meta.url));
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_MS) || undefined;
+const BALANCE_CACHE_MS = Number(process.env.BALANCE_CACHE_MS) || undefined;
+const MAKER_FEE_BPS = Number(process.env.MAKER_FEE_BPS ?? 0);
+const TAKER_FEE_BPS = Number(process.env.TAKER_FEE_BPS ?? 10);
+const PROVING_CONCURRENCY = Number(process.env.PROVING_CONCURRENCY) || undefined;
+const JOB_TIMEOUT_MS = Number(process.env.JOB_TIMEOUT_MS) || undefined;
+const JOB_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || undefined;
+// How often a deposit or withdrawal whose transaction is still pending is looked up again
+const MOVEMENT_RECHECK_MS = 30 * 1000;
+// Resting orders may trade as maker or taker, so they reserve the higher fee
+const RESERVED_FEE_BPS = Math.max(MAKER_FEE_BPS, TAKER_FEE_BPS);
+
+// Where the mock chain deploys its escrow and order book when the network has
+// none, and the development key that owns them when ESCROW_OPERATOR_KEY is not set
+const MOCK_ESCROW_ADDRESS = '0x0e5c0000000000000000000000000000000000000000000000000000000000e5';
+const MOCK_ORDER_BOOK_ADDRESS = '0x0b0c0000000000000000000000000000000000000000000000000000000000b0';
+const MOCK_OPERATOR_KEY = '0x0e5c';
+const ESCROW_ADDRESS = NETWORK.contracts?.escrow ?? MOCK_ESCROW_ADDRESS;
+const ORDER_BOOK_ADDRESS = NETWORK.contracts?.orderBook ?? MOCK_ORDER_BOOK_ADDRESS;
+
+// MOCK_FUNDING is the private and public balance each new mock account starts with;
+// MOCK_TX_STEP_MS slows each mock transaction step down so its progress can be watched
+const chain = await createChainAdapter(CHAIN_ADAPTER, {
+  nodeUrl: NETWORK.nodeUrl,
+  sponsoredFpc: NETWORK.contracts?.sponsoredFpc,
+  tokens: Object.values(TOKENS),
+  funding: process.env.MOCK_FUNDING || '1000',
+  stepDelay: Number(process.env.MOCK_TX_STEP_MS) || 0,
+});
+
+// Withdrawals are sent by the escrow contract's owner; without its key the
+// escrow cannot release funds, so deposits and withdrawals are refused
+const operatorKey = process.env.ESCROW_OPERATOR_KEY || (chain.name === 'mock' ? MOCK_OPERATOR_KEY : null);
+const operatorSalt = process.env.ESCROW_OPERATOR_SALT || DEFAULT_ACCOUNT_SALT;
+const operator = operatorKey
+  ? { address: await chain.deriveAddress(operatorKey, operatorSalt), secretKey: operatorKey, salt: operatorSalt }
+  : null;
+if (chain.name === 'mock') {
+  chain.deployEscrow(ESCROW_ADDRESS, operator.address);
+  chain.deployOrderBook(ORDER_BOOK_ADDRESS, operator.address, ESCROW_ADDRESS);
+}
+
+const balances = new BalanceCache(chain, BALANCE_CACHE_MS);
+// Only an unreachable node is worth retrying; reverts and bad input fail the same way again
+const jobs = new JobQueue({
+  concurrency: PROVING_CONCURRENCY,
+  timeoutMs: JOB_TIMEOUT_MS,
+  maxAttempts: JOB_MAX_ATTEMPTS,
+  isTransient: (error) => error instanceof ChainError && error.code === CHAIN_ERRORS.UNAVAILABLE,
+});
+const transactions = new TransactionTracker(jobs);
+// Fills stay pending settlement when the chain or operator cannot settle them
+const settlement = operator && chain.canSettle
+  ? new SettlementWorker({ chain, jobs, operator, orderBook: ORDER_BOOK_ADDRESS, escrow: ESCROW_ADDRESS, feeRecipient: process.env.FEE_RECIPIENT || undefined })
+  : null;
+const store = new Store(DATA_FILE);
+const sessions = new SessionManager(store, SESSION_TTL_MS);
+const { requireSession } = sessions;
+
+// Rebuild state from storage, then compact the log down to current records
+const persisted = store.load();
+persisted.sessions = sessions.restore(persisted.sessions);
+store.compact(persisted);
+console.log(`Restored ${persisted.orders.length} orders and ${persisted.fills.length} fills from ${DATA_FILE}`);
+
+const fillLedger = new FillLedger(persisted.fills);
+const escrow = new EscrowLedger({ balances: persisted.escrowBalances, movements: persisted.escrowMovements });
+escrow.on('balance', (owner, token, units) => store.saveEscrowBalance(owner, token, fromUnits(units)));
+escrow.on('movement', (movement) => store.saveEscrowMovement({ ...serializeMovement(movement), owner: movement.owner }));
+const restoredOrders = persisted.orders.map(deserializeOrder);
+
+// One order book, trade stream and candle series per market
+const markets = new Map(MARKETS.map((config) => {
+  const book = new OrderBook({ market: config.id, makerFeeBps: MAKER_FEE_BPS, takerFeeBps: TAKER_FEE_BPS });
+  book.restore(restoredOrders.filter((order) => order.market === config.id));
+
+  const fills = fillLedger.getMarketFills(config.id);
+  const candles = new CandleAggregator(fills);
+
+  book.on('order', (order) => store.saveOrder({ ...serializeOrder(order), sequence: order.sequence }));
+  book.on('cancel', (order) => store.saveCancel(order));
+  book.on('fill', (fill) => {
+    escrow.applyFill(fill);
+    const serialized = serializeFill(fill);
+    store.saveFill(serialized);
+    fillLedger.record(serialized);
+    candles.record(serialized);
+    settlement?.submit(serialized);
+  });
+
+  return [config.id, { config, book, candles, stream: new MarketStream(book, fills) }];
+}));
+
+// A settled fill only needs its status recorded. A failed one is undone: the
+// escrowed funds move back and both orders regain the amount.
+settlement?.on('settled', (fill, txHash) => {
+  store.saveFill(fillLedger.update(fill.id, { settlement: SETTLEMENT_STATUS.SETTLED, settlementTxHash: txHash }));
+});
+settlement?.on('failed', (fill, error) => {
+  // A fill is reverted once, however many times its settlement is reported failed
+  if (fillLedger.get(fill.id).settlement === SETTLEMENT_STATUS.FAILED) return;
+  console.error(`Settlement of ${fill.id} failed; reverting it:`, error.message);
+  store.saveFill(fillLedger.update(fill.id, { settlement: SETTLEMENT_STATUS.FAILED, settlementError: error.message }));
+  const internal = deserializeFill(fill);
+  const { book, candles } = getMarketState(fill.market);
+  escrow.revertFill(internal);
+  book.revertFill(internal);
+  candles.rebuild(fillLedger.getMarketFills(fill.market));
+});
+const unsettled = fillLedger.getUnsettled();
+if (settlement && unsettled.length > 0) {
+  console.log(`Reconciling ${unsettled.length} fill(s) left unsettled at shutdown`);
+  settlement.reconcile(unsettled);
+}
+
+// Deposits and withdrawals in flight at shutdown lost their transaction handles
+const strandedMovements = escrow.getPending();
+if (strandedMovements.length > 0) {
+  console.log(`Checking ${strandedMovements.length} escrow movement(s) left pending at shutdown`);
+  strandedMovements.forEach((movement) => resolveMovement(movement, 'Interrupted by a server restart'));
+}
+
+// Market named in a request, or the default one
+function getMarketState(id = DEFAULT_MARKET_ID) {
+  return markets.get(id);
+}
+
+// Find an order by id across every market's book
+function findOrder(orderId) {
+  for (const { book } of markets.values()) {
+    const order = book.getOrder(orderId);
+    if (order) return { book, order };
+  }
+  return null;
+}
+
+// Orders must land on the market's lot and tick grid and meet its minimum
+function checkMarketRules(config, { amount, price }) {
+  const amountUnits = toUnits(amount);
+  if (amountUnits % toUnits(config.lotSize) !== 0n) {
+    throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, `Amount must be a multiple of the lot size ${config.lotSize} for ${config.id}`);
+  }
+  if (amountUnits < toUnits(config.minOrder)) {
+    throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, `Minimum order for ${config.id} is ${config.minOrder} ${config.base}`);
+  }
+  if (price && toUnits(price) % toUnits(config.tickSize) !== 0n) {
+    throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, `Price must be a multiple of the tick size ${config.tickSize} for ${config.id}`);
+  }
+}
+
+// Escrowed units of each token reserved by an owner's open orders
+function lockedFunds(owner) {
+  const locked = new Map();
+  for (const { book } of markets.values()) {
+    for (const order of book.getOpenOrdersByOwner(owner)) {
+      const { token, amount } = orderReservation(order, RESERVED_FEE_BPS);
+      locked.set(token, (locked.get(token) ?? 0n) + amount);
+    }
+  }
+  return locked;
+}
+
+// Escrowed units of a token the owner can still trade or withdraw
+function availableFunds(owner, token) {
+  return clampUnits(escrow.getBalance(owner, token) - (lockedFunds(owner).get(token) ?? 0n));
+}
+
+function clampUnits(units) {
+  return units > 0n ? units : 0n;
+}
+
+// Escrowed funds a new order needs: the base it sells, or the quote (plus
+// fee) it pays at its limit - for market buys, at the prices it would sweep
+function requiredFunds(config, book, { type, isBuy, amount, price, worstPrice }) {
+  const amountUnits = toUnits(amount);
+  if (!isBuy) {
+    return { token: config.base, amount: amountUnits };
+  }
+  if (type === ORDER_TYPES.MARKET) {
+    const cost = book.getCost({ isBuy, price: worstPrice ? toUnits(worstPrice) : null }, amountUnits);
+    return { token: config.quote, amount: cost + (cost * BigInt(TAKER_FEE_BPS)) / 10000n };
+  }
+  return orderReservation({ market: config.id, isBuy, amount: amountUnits, filled: 0n, price: toUnits(price) }, RESERVED_FEE_BPS);
+}
+
+// The escrow operator, or a 501 when deposits and withdrawals are unavailable
+function escrowOperator() {
+  if (!operator) {
+    throw new ApiError(501, ERROR_CODES.NOT_SUPPORTED, 'Escrow is not configured on this server; set ESCROW_OPERATOR_KEY to the escrow owner\'s secret key');
+  }
+  return operator;
+}
+
+// Report a movement's transaction progress, keeping its hash once the node has it
+function movementProgress(movement, report) {
+  return (status, update) => {
+    report(status, update);
+    if (update?.txHash) escrow.markSent(movement.id, update.txHash);
+  };
+}
 
-let nodeClient = null;
+// Settle a deposit or withdrawal whose transaction failed or was interrupted.
+// Without a hash it never reached the node and has failed; with one it may
+// still mine, so the chain decides before any refund.
+async function resolveMovement(movement, reason) {
+  if (movement.status !== ESCROW_STATUS.PENDING) return;
+  if (!movement.txHash) {
+    escrow.fail(movement.id, reason);
+    return;
+  }
+
+  try {
+    const { status } = await chain.getTxStatus(movement.txHash);
+    if (status === TX_STATUS.MINED) {
+      balances.invalidate(movement.owner);
+      escrow.complete(movement.id);
+      return;
+    }
+    if (status === TX_STATUS.FAILED) {
+      escrow.fail(movement.id, reason);
+      return;
+    }
+  } catch (error) {
+    console.error(`Could not look up escrow ${movement.kind} ${movement.id}:`, error.message);
+  }
+  setTimeout(() => resolveMovement(movement, reason), MOVEMENT_RECHECK_MS);
+}
 
-async function getNode() {
-  if (!nodeClient) {
-    nodeClient = createAztecNodeClient(PXE_URL);
+// Chain account for the session's wallet. Secret keys live only in memory,
+// so sessions restored after a restart must reconnect before touching the chain.
+function chainAccount(session) {
+  const secretKey = sessions.getSecret(session);
+  if (!secretKey) {
+    throw new ApiError(401, ERROR_CODES.UNAUTHORIZED, 'Session key unavailable since the server restarted; reconnect the wallet');
   }
-  return nodeClient;
+  return { address: session.address, secretKey, salt: session.salt || DEFAULT_ACCOUNT_SALT };
 }
 
-// Health check
+// Health check - the API stays up when the node is unreachable, reporting degraded
 app.get('/api/health', async (req, res) => {
+  let nodeVersion = null;
   try {
-    const node = await getNode();
-    const info = await node.getNodeInfo();
-    res.json({ 
-      success: true, 
-      network: 'devnet',
-      nodeVersion: info.nodeVersion,
-      contracts: CONTRACT_ADDRESSES
-    });
+    const info = await chain.getNodeInfo();
+    nodeVersion = info.nodeVersion;
   } catch (error) {
-    res.json({ success: false, error: error.message });
+    console.error('Health check node error:', error.message);
   }
+
+  res.json({ 
+    success: true, 
+    status: nodeVersion ? 'ok' : 'degraded',
+    timestamp: Date.now(),
+    network: NETWORK.id,
+    chainId: NETWORK.chainId,
+    adapter: chain.name,
+    nodeVersion,
+    contracts: NETWORK.contracts
+  });
 });
 
-// Connect wallet
+// Connect wallet - the secret key proves control of the account and is
+// exchanged for a session token; it is not sent again after this call
 app.post('/api/wallet/connect', async (req, res) => {
   try {
-    const { secretKey } = req.body;
-    if (!secretKey) {
-      return res.json({ success: false, error: 'Secret key required' });
-    }
-    
-    const secret = Fr.fromHexString(secretKey);
-    const salt = Fr.fromHexString('0x1234');
-    const address = await getSchnorrAccountContractAddress(secret, salt);
+    const { secretKey, salt } = validate(ConnectWalletRequest, req.body);
+    const accountSalt = salt || DEFAULT_ACCOUNT_SALT;
+    const address = await chain.deriveAddress(secretKey, accountSalt);
+    const { token, session } = sessions.create(address, secretKey, accountSalt);
     
     res.json({ 
       success: true, 
-      address: address.toString(),
+      address,
+      sessionToken: token,
+      expiresAt: session.expiresAt,
       message: 'Wallet connected'
     });
   } catch (error) {
-    console.error('Connect error:', error);
-    res.json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
-// Get orders - returns array format
+// Check the current session
+app.get('/api/wallet/session', requireSession, (req, res) => {
+  res.json({
+    success: true,
+    address: req.wallet.address,
+    expiresAt: req.wallet.expiresAt
+  });
+});
+
+// Disconnect wallet - revokes the session token
+app.post('/api/wallet/disconnect', requireSession, (req, res) => {
+  sessions.revoke(req.sessionToken);
+  res.json({
+    success: true,
+    message: 'Wallet disconnected'
+  });
+});
+
+// Get orders - the resting book of one market
 app.get('/api/orders', async (req, res) => {
   try {
+    const { market } = validate(MarketQuery, req.query);
     res.json({ 
       success: true, 
-      orders: []
+      orders: getMarketState(market).book.getOpenOrders().map(serializeOrder)
     });
   } catch (error) {
-    res.json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
+// Get every order placed by the session's wallet, in every market
+app.get('/api/orders/mine', requireSession, (req, res) => {
+  const orders = [...markets.values()]
+    .flatMap(({ book }) => book.getOrdersByOwner(req.wallet.address))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  res.json({
+    success: true,
+    orders: orders.map(serializeOrder)
+  });
+});
+
+// Page through the session wallet's fills, newest first
+app.get('/api/fills', requireSession, (req, res) => {
+  try {
+    const query = validate(FillsQuery, req.query);
+    const account = query.account || req.wallet.address;
+    if (account.toLowerCase() !== req.wallet.address.toLowerCase()) {
+      throw new ApiError(403, ERROR_CODES.FORBIDDEN, 'Fills can only be listed for the session wallet');
+    }
+    if (query.cursor && !fillLedger.has(query.cursor)) {
+      throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, `Unknown cursor: ${query.cursor}`);
+    }
+
+    res.json({
+      success: true,
+      ...fillLedger.query({
+        account: req.wallet.address,
+        market: query.market,
+        from: query.from && Number(query.from),
+        to: query.to && Number(query.to),
+        limit: query.limit && Number(query.limit),
+        cursor: query.cursor,
+      })
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Measure the session wallet's realized and unrealized PnL from its fills
+app.get('/api/pnl', requireSession, (req, res) => {
+  try {
+    const query = validate(PnlQuery, req.query);
+    res.json({
+      success: true,
+      ...computePnl(fillLedger.getAll(), req.wallet.address, query.method)
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Get OHLCV candles built from executed trades
+app.get('/api/candles', (req, res) => {
+  try {
+    const query = validate(CandlesQuery, req.query);
+    res.json({
+      success: true,
+      interval: query.interval,
+      candles: getMarketState(query.market).candles.query({
+        interval: query.interval,
+        from: query.from && Number(query.from),
+        to: query.to && Number(query.to),
+        limit: query.limit && Number(query.limit),
+      })
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Stream order book snapshot and deltas (server-sent events)
+app.get('/api/stream', (req, res) => {
+  try {
+    const query = validate(StreamQuery, req.query);
+    let owner = null;
+    if (query.session) {
+      const session = sessions.get(query.session);
+      if (!session) {
+        throw new ApiError(401, ERROR_CODES.UNAUTHORIZED, 'Session missing or expired');
+      }
+      owner = session.address;
+    }
+    getMarketState(query.market).stream.handle(req, res, owner);
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Summarize how an order left the matching engine
+function describeOrder(order, fills, worstPrice) {
+  const label = order.type === ORDER_TYPES.LIMIT ? 'Order' : `${order.type.toUpperCase().replace('_', '-')} order`;
+  if (order.status === ORDER_STATUS.CANCELLED) {
+    const guard = worstPrice ? ` (worst acceptable price ${worstPrice})` : '';
+    return fills.length > 0
+      ? `${label} filled ${fromUnits(order.filled)} of ${fromUnits(order.amount)}; the remainder was cancelled${guard}`
+      : `${label} found nothing to match at its price${guard} and was cancelled`;
+  }
+  if (order.status === ORDER_STATUS.FILLED) {
+    return `${label} filled in full with ${fills.length} fill(s)`;
+  }
+  return fills.length > 0 ? `${label} created with ${fills.length} fill(s)` : `${label} created`;
+}
+
 // Create order
-app.post('/api/orders', async (req, res) => {
+app.post('/api/orders', requireSession, async (req, res) => {
   try {
-    const { side, price, amount, secretKey } = req.body;
-    
-    if (!secretKey || !side || !price || !amount) {
-      return res.json({ success: false, error: 'Missing required fields' });
+    const { market, side, type = ORDER_TYPES.LIMIT, price, amount, worstPrice } = validate(CreateOrderRequest, req.body);
+    const { config, book } = getMarketState(market);
+    if (type === ORDER_TYPES.MARKET && price) {
+      throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, 'Market orders execute at the best available prices and take no price');
     }
-    
-    const orderId = `order_${Date.now()}`;
-    
+    if (type !== ORDER_TYPES.MARKET && !price) {
+      throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, `A price is required for ${type} orders`);
+    }
+    checkMarketRules(config, { amount, price });
+
+    const required = requiredFunds(config, book, { type, isBuy: side === 'buy', amount, price, worstPrice });
+    const available = availableFunds(req.wallet.address, required.token);
+    if (required.amount > available) {
+      throw new ApiError(409, ERROR_CODES.INSUFFICIENT_BALANCE,
+        `Order needs ${fromUnits(required.amount)} ${required.token} in escrow but ${fromUnits(available)} is available; deposit before trading`);
+    }
+
+    let result;
+    try {
+      result = book.submit({
+        owner: req.wallet.address,
+        type,
+        isBuy: side === 'buy',
+        amount,
+        price,
+        worstPrice,
+      });
+    } catch (error) {
+      if (error instanceof OrderRejectedError) {
+        throw new ApiError(409, ERROR_CODES.ORDER_REJECTED, error.message);
+      }
+      throw error;
+    }
+    const { order, fills } = result;
+    const message = describeOrder(order, fills, worstPrice);
+
+    // Settlements run one after another in the operator's lane, so the last one finishes last
+    const settlements = fills.map((fill) => settlement?.get(fill.id)).filter(Boolean);
+    const transaction = transactions.follow(req.wallet.address, {
+      kind: TX_KINDS.ORDER,
+      description: message,
+      jobId: settlements.at(-1)?.job.id ?? null,
+    }, settlements.length > 0
+      ? Promise.all(settlements.map(({ result }) => result)).then((results) => results.at(-1))
+      : null);
+
     res.json({ 
       success: true, 
-      orderId,
-      message: 'Order created'
+      orderId: order.id,
+      order: serializeOrder(order),
+      fills: fills.map(serializeFill),
+      message,
+      transaction
     });
   } catch (error) {
-    res.json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
-// Get balance
-app.get('/api/balance', async (req, res) => {
+// Cancel every open order belonging to the caller, optionally in one market only
+app.delete('/api/orders/cancel', requireSession, async (req, res) => {
   try {
-    res.json({ 
-      success: true, 
-      balance: '0',
-      tokenAddress: CONTRACT_ADDRESSES.token
+    const { market } = validate(MarketQuery, req.query);
+    const books = market ? [getMarketState(market).book] : [...markets.values()].map(({ book }) => book);
+    const cancelled = books.flatMap((book) =>
+      book.getOpenOrdersByOwner(req.wallet.address).map((order) => book.cancel(order.id))
+    );
+
+    const message = `Cancelled ${cancelled.length} order(s)`;
+    res.json({
+      success: true,
+      cancelled: cancelled.map(serializeOrder),
+      message,
+      transaction: transactions.follow(req.wallet.address, { kind: TX_KINDS.CANCEL, description: message }, null)
     });
   } catch (error) {
-    res.json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
-// Get balance with POST (for wallet-specific balance)
-app.post('/api/balance', async (req, res) => {
+// Cancel a single order, if the caller owns it
+app.delete('/api/orders/cancel/:id', requireSession, async (req, res) => {
   try {
-    const { secretKey, tokenAddress } = req.body;
-    res.json({ 
-      success: true, 
-      balance: '0',
-      tokenAddress: tokenAddress || CONTRACT_ADDRESSES.token
+    const found = findOrder(req.params.id);
+    if (!found) {
+      throw new ApiError(404, ERROR_CODES.NOT_FOUND, 'Order not found');
+    }
+    const { book, order } = found;
+    if (order.owner !== req.wallet.address) {
+      throw new ApiError(403, ERROR_CODES.FORBIDDEN, 'Not authorized to cancel this order');
+    }
+
+    const cancelled = book.cancel(order.id);
+    if (!cancelled) {
+      throw new ApiError(409, ERROR_CODES.CONFLICT, 'Order is no longer open');
+    }
+
+    res.json({
+      success: true,
+      order: serializeOrder(cancelled),
+      message: 'Order cancelled',
+      transaction: transactions.follow(req.wallet.address, { kind: TX_KINDS.CANCEL, description: `Cancelled order ${order.id}` }, null)
     });
   } catch (error) {
-    res.json({ success: false, error: error.message });
+    sendError(res, error);
+  }
+});
+
+// Get the session wallet's private and public balance of the market token
+app.get('/api/balance', requireSession, async (req, res) => {
+  try {
+    const balance = await balances.get(chainAccount(req.wallet), DEFAULT_TOKEN);
+    res.json({ success: true, ...balance });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Get balance with POST (for a specific token)
+app.post('/api/balance', requireSession, async (req, res) => {
+  try {
+    const { tokenAddress } = validate(BalanceRequest, req.body);
+    const balance = await balances.get(chainAccount(req.wallet), tokenAddress || DEFAULT_TOKEN);
+    res.json({ success: true, ...balance });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Transfer tokens from the session's wallet, responding with a transaction handle once accepted
+app.post('/api/transfer', requireSession, async (req, res) => {
+  try {
+    const { to, amount, visibility } = validate(TransferRequest, req.body);
+    const account = chainAccount(req.wallet);
+    const token = DEFAULT_TOKEN;
+    const isPrivate = visibility === 'private';
+
+    const balance = await balances.get(account, token);
+    let units;
+    try {
+      units = toUnits(amount, balance.decimals);
+    } catch {
+      throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, `${balance.symbol} amounts allow at most ${balance.decimals} decimal places`);
+    }
+
+    const available = isPrivate ? balance.privateBalance : balance.publicBalance;
+    if (units > toUnits(available, balance.decimals)) {
+      throw new ApiError(409, ERROR_CODES.INSUFFICIENT_BALANCE, `Insufficient ${visibility} balance: ${available} ${balance.symbol} available`);
+    }
+
+    const description = `Send ${amount} ${balance.symbol} (${visibility})`;
+    const transaction = transactions.start(account.address, { kind: TX_KINDS.TRANSFER, description }, async (report) => {
+      const tx = await chain.transfer(account, { token, to, amount: units, isPrivate }, report);
+      balances.invalidate(account.address);
+      balances.invalidate(to);
+      return tx;
+    });
+
+    res.status(202).json({
+      success: true,
+      transaction,
+      message: `${description} submitted`
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// List the session wallet's recent transactions
+app.get('/api/transactions', requireSession, (req, res) => {
+  res.json({ success: true, transactions: transactions.listByOwner(req.wallet.address) });
+});
+
+// Get the session wallet's escrowed, locked and available funds and its recent deposits and withdrawals
+app.get('/api/escrow', requireSession, (req, res) => {
+  const owner = req.wallet.address;
+  const locked = lockedFunds(owner);
+  res.json({
+    success: true,
+    balances: Object.values(TOKENS).map(({ symbol, address }) => ({
+      token: symbol,
+      tokenAddress: address,
+      escrowed: fromUnits(clampUnits(escrow.getBalance(owner, symbol))),
+      locked: fromUnits(locked.get(symbol) ?? 0n),
+      available: fromUnits(availableFunds(owner, symbol)),
+    })),
+    movements: escrow.listByOwner(owner).map(serializeMovement)
+  });
+});
+
+// Deposit private funds from the session's wallet into escrow, credited once the transfer mines
+app.post('/api/escrow/deposit', requireSession, async (req, res) => {
+  try {
+    const { token: symbol, amount } = validate(EscrowRequest, req.body);
+    escrowOperator();
+    const account = chainAccount(req.wallet);
+    const token = TOKENS[symbol].address;
+
+    const balance = await balances.get(account, token);
+    let units;
+    try {
+      units = toUnits(amount, balance.decimals);
+    } catch {
+      throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, `${symbol} amounts allow at most ${balance.decimals} decimal places`);
+    }
+    if (units > toUnits(balance.privateBalance, balance.decimals)) {
+      throw new ApiError(409, ERROR_CODES.INSUFFICIENT_BALANCE, `Insufficient private balance: ${balance.privateBalance} ${symbol} available`);
+    }
+
+    const movement = escrow.deposit(account.address, symbol, toUnits(amount));
+    const description = `Deposit ${amount} ${symbol} to escrow`;
+    const transaction = transactions.start(account.address, {
+      kind: TX_KINDS.DEPOSIT,
+      description,
+      onFail: (error) => resolveMovement(movement, error.message),
+    }, async (report) => {
+      const progress = movementProgress(movement, report);
+      const tx = await chain.transfer(account, { token, to: ESCROW_ADDRESS, amount: units, isPrivate: true }, progress);
+      balances.invalidate(account.address);
+      escrow.complete(movement.id);
+      return tx;
+    });
+    escrow.attach(movement.id, transaction.id);
+
+    res.status(202).json({
+      success: true,
+      transaction,
+      movement: serializeMovement(movement),
+      message: `${description} submitted`
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Withdraw available escrowed funds back to the session's wallet; the escrow owner sends the transaction
+app.post('/api/escrow/withdraw', requireSession, async (req, res) => {
+  try {
+    const { token: symbol, amount } = validate(EscrowRequest, req.body);
+    const sender = escrowOperator();
+    const owner = req.wallet.address;
+    const { address: token, decimals } = TOKENS[symbol];
+
+    let units;
+    try {
+      units = toUnits(amount, decimals);
+    } catch {
+      throw new ApiError(400, ERROR_CODES.VALIDATION_ERROR, `${symbol} amounts allow at most ${decimals} decimal places`);
+    }
+    const available = availableFunds(owner, symbol);
+    if (toUnits(amount) > available) {
+      throw new ApiError(409, ERROR_CODES.INSUFFICIENT_BALANCE, `Insufficient escrowed ${symbol}: ${fromUnits(available)} available outside open orders`);
+    }
+
+    const movement = escrow.withdraw(owner, symbol, toUnits(amount));
+    const description = `Withdraw ${amount} ${symbol} from escrow`;
+    const transaction = transactions.start(owner, {
+      kind: TX_KINDS.WITHDRAW,
+      description,
+      sender: sender.address,
+      onFail: (error) => resolveMovement(movement, error.message),
+    }, async (report) => {
+      const progress = movementProgress(movement, report);
+      const tx = await chain.withdrawFromEscrow(sender, { escrow: ESCROW_ADDRESS, token, amount: units, recipient: owner }, progress);
+      balances.invalidate(owner);
+      escrow.complete(movement.id);
+      return tx;
+    });
+    escrow.attach(movement.id, transaction.id);
+
+    res.status(202).json({
+      success: true,
+      transaction,
+      movement: serializeMovement(movement),
+      message: `${description} submitted`
+    });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Get the status of one of the session wallet's transactions
+app.get('/api/transactions/:id', requireSession, (req, res) => {
+  try {
+    const entry = transactions.get(req.params.id);
+    if (!entry || entry.owner !== req.wallet.address) {
+      throw new ApiError(404, ERROR_CODES.NOT_FOUND, 'Transaction not found');
+    }
+    res.json({ success: true, transaction: entry.tx });
+  } catch (error) {
+    sendError(res, error);
+  }
+});
+
+// Get a proving job's status and queue position
+app.get('/api/jobs/:id', requireSession, (req, res) => {
+  try {
+    const entry = jobs.get(req.params.id);
+    if (!entry || entry.owner !== req.wallet.address) {
+      throw new ApiError(404, ERROR_CODES.NOT_FOUND, 'Job not found');
+    }
+    res.json({ success: true, job: jobs.serialize(entry.job) });
+  } catch (error) {
+    sendError(res, error);
   }
 });
 
 // Get block info
 app.get('/api/node/block', async (req, res) => {
   try {
-    const node = await getNode();
-    const tips = await node.getL2Tips();
+    const tips = await chain.getBlockTips();
+
     res.json({ 
       success: true, 
-      tips
+      blockNumber: tips.latest,
+      provenBlockNumber: tips.proven,
+      finalizedBlockNumber: tips.finalized,
+      timestamp: Date.now()
     });
   } catch (error) {
-    res.json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
+app.use(errorHandler);
+
 const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => {
   console.log(`Aztec Dark Market API running on port ${PORT}`);
-  console.log(`Node URL: ${PXE_URL}`);
-  console.log(`Contracts:`, CONTRACT_ADDRESSES);
+  console.log(`Network: ${NETWORK.name} (${NETWORK.chainId})`);
+  console.log(`Chain adapter: ${chain.name}${chain.name === 'aztec' ? ` (${NETWORK.nodeUrl})` : ''}`);
+  console.log(`Contracts:`, NETWORK.contracts ?? 'none deployed');
+  console.log(`Settlement: ${settlement ? `OrderBook ${ORDER_BOOK_ADDRESS}` : 'disabled; fills stay pending'}`);
+  console.log(`Escrow: ${ESCROW_ADDRESS}${operator ? ` (operator ${operator.address})` : ' (no operator key; deposits and withdrawals disabled)'}`);
 });
@@ -0,0 +1,119 @@
+// Wallet Sessions
+// Issues expiring bearer tokens once a client has proven control of an
+// account. Only a hash of each token is persisted, and secret keys are held
+// in memory for the lifetime of the process, never written to storage.
+
+import crypto from 'crypto';
+import { ApiError } from './errors.js';
+import { ERROR_CODES } from '../shared/contract.mjs';
+
+const DEFAULT_TTL = 12 * 60 * 60 * 1000;
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export class SessionManager {
+  /**
+   * @param {import('./storage.js').Store} store Where session records are persisted
+   * @param {number} ttl Session lifetime in milliseconds
+   */
+  constructor(store, ttl = DEFAULT_TTL) {
+    this.store = store;
+    this.ttl = ttl;
+    this.sessions = new Map();
+    this.secrets = new Map();
+  }
+
+  /**
+   * Load persisted sessions, dropping any that have expired
+   * @param {object[]} sessions Session records from storage
+   * @returns {object[]} The sessions that are still live
+   */
+  restore(sessions) {
+    const now = Date.now();
+    const live = sessions.filter((session) => session.expiresAt > now);
+    live.forEach((session) => this.sessions.set(session.id, session));
+    return live;
+  }
+
+  /**
+   * Open a session for an address the caller has proven control of
+   * @param {string} address Account address
+   * @param {string} secretKey Account secret, kept in memory for signing
+   * @param {string} salt Salt the account address was derived with
+   * @returns {{ token: string, session: object }}
+   */
+  create(address, secretKey, salt) {
+    const token = crypto.randomBytes(32).toString('hex');
+    const now = Date.now();
+    const session = {
+      id: hashToken(token),
+      address,
+      salt,
+      createdAt: now,
+      expiresAt: now + this.ttl,
+    };
+
+    this.sessions.set(session.id, session);
+    this.secrets.set(session.id, secretKey);
+    this.store.saveSession(session);
+    return { token, session };
+  }
+
+  /**
+   * Look up a live session by its bearer token
+   * @param {string} token
+   * @returns {object|null}
+   */
+  get(token) {
+    if (!token) return null;
+
+    const id = hashToken(token);
+    const session = this.sessions.get(id);
+    if (!session) return null;
+
+    if (session.expiresAt <= Date.now()) {
+      this.remove(id);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Secret key for a session, if this process still holds it
+   * @param {object} session
+   * @returns {string|null}
+   */
+  getSecret(session) {
+    return this.secrets.get(session.id) || null;
+  }
+
+  revoke(token) {
+    this.remove(hashToken(token));
+  }
+
+  remove(id) {
+    if (this.sessions.delete(id)) {
+      this.secrets.delete(id);
+      this.store.removeSession(id);
+    }
+  }
+
+  /**
+   * Express middleware that requires `Authorization: Bearer <token>` and
+   * exposes the session as req.wallet
+   */
+  requireSession = (req, res, next) => {
+    const header = req.get('authorization') || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+    const session = this.get(token);
+    if (!session) {
+      return next(new ApiError(401, ERROR_CODES.UNAUTHORIZED, 'Session missing or expired'));
+    }
+
+    req.wallet = session;
+    req.sessionToken = token;
+    next();
+  };
+}
@@ -0,0 +1,107 @@
+// Trade Settlement
+// Orders match off-chain; each fill is then settled on the OrderBook
+// contract by the escrow operator. Settlements run in the proving job queue
+// in the operator's lane, one after another, so transient node failures are
+// retried there. Each attempt first asks the contract whether the fill is
+// already settled, so neither a retry nor a resubmission after a restart
+// settles it twice.
+
+import { EventEmitter } from 'events';
+import { toUnits, mulUnits, DECIMALS } from './decimal.js';
+import { TX_KINDS } from '../shared/contract.mjs';
+import { finalResult } from './jobs.js';
+import { TOKENS, getMarket } from '../shared/markets.mjs';
+
+// Engine units carry 18 decimals; tokens with fewer drop the excess
+function toTokenUnits(units, decimals) {
+  return units / 10n ** BigInt(DECIMALS - decimals);
+}
+
+/**
+ * Emits 'settled' with (fill, txHash) once a fill is settled on chain -
+ * txHash is null when an earlier attempt had already settled it - and
+ * 'failed' with (fill, error) once it cannot be.
+ */
+export class SettlementWorker extends EventEmitter {
+  /**
+   * @param {object} options
+   * @param {import('./chain/index.js').ChainAdapter} options.chain
+   * @param {import('./jobs.js').JobQueue} options.jobs Queue the settlements are proved in
+   * @param {import('./chain/index.js').ChainAccount} options.operator Owner of the escrow and order book contracts
+   * @param {string} options.orderBook OrderBook contract address
+   * @param {string} options.escrow Escrow contract address
+   * @param {string} [options.feeRecipient] Account the fees are paid to; the operator by default
+   */
+  constructor({ chain, jobs, operator, orderBook, escrow, feeRecipient = operator.address }) {
+    super();
+    this.chain = chain;
+    this.jobs = jobs;
+    this.operator = operator;
+    this.orderBook = orderBook;
+    this.escrow = escrow;
+    this.feeRecipient = feeRecipient;
+    // fill id -> { job, result } while its settlement is in flight
+    this.inFlight = new Map();
+  }
+
+  /**
+   * Queue a fill for settlement
+   * @param {object} fill Serialized fill
+   * @returns {object} The settlement job
+   */
+  submit(fill) {
+    const { job, result } = this.jobs.enqueue(this.operator.address, TX_KINDS.SETTLEMENT, () => this.settle(fill));
+    const settled = finalResult(result);
+    this.inFlight.set(fill.id, { job, result: settled });
+    settled.then(
+      ({ txHash }) => this.emit('settled', fill, txHash),
+      (error) => this.emit('failed', fill, error)
+    ).finally(() => this.inFlight.delete(fill.id));
+    return job;
+  }
+
+  /**
+   * A fill's settlement, while it is in flight
+   * @param {string} fillId
+   * @returns {{ job: object, result: Promise<{ txHash: string | null, blockNumber?: number }> } | undefined}
+   */
+  get(fillId) {
+    return this.inFlight.get(fillId);
+  }
+
+  async settle(fill) {
+    const query = { orderBook: this.orderBook, fillId: fill.id };
+    if (await this.chain.isFillSettled(this.operator, query)) {
+      return { txHash: null };
+    }
+
+    const market = getMarket(fill.market);
+    const base = TOKENS[market.base];
+    const quote = TOKENS[market.quote];
+    const amount = toUnits(fill.amount);
+    // The escrow ledger charges the same fees, so on-chain holdings keep matching it
+    const [buyerFee, sellerFee] = fill.isBuy ? [fill.takerFee, fill.makerFee] : [fill.makerFee, fill.takerFee];
+    return this.chain.settleFill(this.operator, {
+      ...query,
+      escrow: this.escrow,
+      buyer: fill.isBuy ? fill.taker : fill.maker,
+      seller: fill.isBuy ? fill.maker : fill.taker,
+      baseToken: base.address,
+      baseAmount: toTokenUnits(amount, base.decimals),
+      quoteToken: quote.address,
+      quoteAmount: toTokenUnits(mulUnits(toUnits(fill.price), amount), quote.decimals),
+      buyerFee: toTokenUnits(toUnits(buyerFee), quote.decimals),
+      sellerFee: toTokenUnits(toUnits(sellerFee), quote.decimals),
+      feeRecipient: this.feeRecipient,
+    });
+  }
+
+  /**
+   * Resubmit fills left unsettled by a restart; those that did settle before
+   * it are recognised on chain and only marked settled
+   * @param {object[]} fills Serialized fills still pending settlement, oldest first
+   */
+  reconcile(fills) {
+    fills.forEach((fill) => this.submit(fill));
+  }
+}
@@ -0,0 +1,136 @@
+// Storage Layer
+// Append-only JSON lines log for orders, fills, cancellations, wallet
+// sessions and escrow balances and movements. Replaying the log on startup rebuilds the server's state.
+
+import fs from 'fs';
+import path from 'path';
+
+export class Store {
+  /**
+   * @param {string} filePath Location of the log file (created on first write)
+   */
+  constructor(filePath) {
+    this.filePath = filePath;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  /**
+   * Replay the log into the latest state of every record
+   * @returns {{ orders: object[], fills: object[], sessions: object[], escrowBalances: object[], escrowMovements: object[] }}
+   */
+  load() {
+    const orders = new Map();
+    const fills = new Map();
+    const sessions = new Map();
+    const escrowBalances = new Map();
+    const escrowMovements = new Map();
+
+    if (!fs.existsSync(this.filePath)) {
+      return { orders: [], fills: [], sessions: [], escrowBalances: [], escrowMovements: [] };
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let entry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A crash mid-write can leave a truncated final line; skip it
+        console.warn(`Skipping unreadable storage entry at line ${index + 1}`);
+        return;
+      }
+
+      const { type, data } = entry;
+      switch (type) {
+        case 'order':
+          orders.set(data.id, data);
+          break;
+        case 'cancel': {
+          const order = orders.get(data.id);
+          if (order) {
+            orders.set(data.id, { ...order, status: data.status, updatedAt: data.updatedAt });
+          }
+          break;
+        }
+        case 'fill':
+          fills.set(data.id, data);
+          break;
+        case 'session':
+          sessions.set(data.id, data);
+          break;
+        case 'session_end':
+          sessions.delete(data.id);
+          break;
+        case 'escrow_balance':
+          escrowBalances.set(`${data.owner}:${data.token}`, data);
+          break;
+        case 'escrow_movement':
+          escrowMovements.set(data.id, data);
+          break;
+        default:
+          console.warn(`Unknown storage entry type: ${type}`);
+      }
+    });
+
+    return {
+      orders: [...orders.values()],
+      fills: [...fills.values()],
+      sessions: [...sessions.values()],
+      escrowBalances: [...escrowBalances.values()],
+      escrowMovements: [...escrowMovements.values()],
+    };
+  }
+
+  /**
+   * Rewrite the log so it holds one entry per live record
+   * @param {{ orders: object[], fills: object[], sessions: object[], escrowBalances: object[], escrowMovements: object[] }} state
+   */
+  compact({ orders, fills, sessions, escrowBalances, escrowMovements }) {
+    const entries = [
+      ...orders.map((data) => ({ type: 'order', data })),
+      ...fills.map((data) => ({ type: 'fill', data })),
+      ...sessions.map((data) => ({ type: 'session', data })),
+      ...escrowBalances.map((data) => ({ type: 'escrow_balance', data })),
+      ...escrowMovements.map((data) => ({ type: 'escrow_movement', data })),
+    ];
+    const content = entries.map((entry) => JSON.stringify(entry) + '\n').join('');
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, this.filePath);
+  }
+
+  append(type, data) {
+    fs.appendFileSync(this.filePath, JSON.stringify({ type, data }) + '\n');
+  }
+
+  saveOrder(order) {
+    this.append('order', order);
+  }
+
+  saveCancel(order) {
+    this.append('cancel', { id: order.id, status: order.status, updatedAt: order.updatedAt });
+  }
+
+  saveFill(fill) {
+    this.append('fill', fill);
+  }
+
+  saveSession(session) {
+    this.append('session', session);
+  }
+
+  removeSession(id) {
+    this.append('session_end', { id });
+  }
+
+  saveEscrowBalance(owner, token, amount) {
+    this.append('escrow_balance', { owner, token, amount });
+  }
+
+  saveEscrowMovement(movement) {
+    this.append('escrow_movement', movement);
+  }
+}
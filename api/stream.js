@@ -0,0 +1,156 @@
+// Market Stream
+// Server-sent events feed of the order book. Each connection receives a full
+// snapshot followed by sequenced deltas: price level changes, public trades,
+// trades withdrawn after a failed settlement, and status updates for the
+// subscriber's own orders.
+
+import { fromUnits } from './decimal.js';
+import { serializeOrder } from './matching.js';
+import { SETTLEMENT_STATUS } from '../shared/contract.mjs';
+
+const HEARTBEAT_INTERVAL = 15000;
+const RECENT_TRADES_LIMIT = 50;
+
+function levelKey(isBuy, price) {
+  return `${isBuy ? 'bid' : 'ask'}:${price}`;
+}
+
+function serializeLevel(level) {
+  return {
+    price: fromUnits(level.price),
+    amount: fromUnits(level.amount),
+    count: level.count,
+  };
+}
+
+function serializeTrade(fill) {
+  // Counterparty addresses stay private; only the print is broadcast
+  return {
+    id: fill.id,
+    price: fromUnits(fill.price),
+    amount: fromUnits(fill.amount),
+    isBuy: fill.isBuy,
+    timestamp: fill.timestamp,
+  };
+}
+
+export class MarketStream {
+  /**
+   * @param {import('./matching.js').OrderBook} orderBook Book to publish
+   * @param {object[]} recentFills Serialized fills to seed the trade tape with
+   */
+  constructor(orderBook, recentFills = []) {
+    this.orderBook = orderBook;
+    this.clients = new Set();
+    this.sequence = 0;
+    this.levels = new Map();
+    this.recentTrades = recentFills
+      .filter((fill) => fill.settlement !== SETTLEMENT_STATUS.FAILED)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, RECENT_TRADES_LIMIT)
+      .map(({ id, price, amount, isBuy, timestamp }) => ({ id, price, amount, isBuy, timestamp }));
+
+    const { bids, asks } = orderBook.getLevels();
+    bids.forEach((level) => this.levels.set(levelKey(true, level.price), level));
+    asks.forEach((level) => this.levels.set(levelKey(false, level.price), level));
+
+    orderBook.on('order', (order) => this.onOrderChange(order));
+    orderBook.on('cancel', (order) => this.onOrderChange(order));
+    orderBook.on('fill', (fill) => this.onFill(fill));
+    orderBook.on('revert', (fill) => this.onRevert(fill));
+  }
+
+  /**
+   * Serve a stream to one client
+   * @param {object} req Express request
+   * @param {object} res Express response
+   * @param {string|null} owner Authenticated address whose orders to include
+   */
+  handle(req, res, owner = null) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const client = { res, owner };
+    this.clients.add(client);
+    this.sendSnapshot(client);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      this.clients.delete(client);
+    });
+  }
+
+  sendSnapshot(client) {
+    const { bids, asks } = this.orderBook.getLevels();
+    const orders = client.owner ? this.orderBook.getOrdersByOwner(client.owner) : [];
+
+    this.write(client, 'snapshot', {
+      seq: this.sequence,
+      bids: bids.map(serializeLevel),
+      asks: asks.map(serializeLevel),
+      trades: this.recentTrades,
+      orders: orders.map(serializeOrder),
+    });
+  }
+
+  onOrderChange(order) {
+    const key = levelKey(order.isBuy, order.price);
+    const previous = this.levels.get(key);
+    const level = this.orderBook.getLevel(order.isBuy, order.price);
+
+    let action = null;
+    if (level.count === 0) {
+      if (previous) action = 'remove';
+    } else if (!previous) {
+      action = 'add';
+    } else if (previous.amount !== level.amount || previous.count !== level.count) {
+      action = 'update';
+    }
+
+    if (action) {
+      if (action === 'remove') {
+        this.levels.delete(key);
+      } else {
+        this.levels.set(key, level);
+      }
+      this.broadcast('level', {
+        side: order.isBuy ? 'bid' : 'ask',
+        action,
+        ...serializeLevel(level),
+      });
+    }
+
+    for (const client of this.clients) {
+      if (client.owner === order.owner) {
+        this.write(client, 'order', { order: serializeOrder(order) });
+      }
+    }
+  }
+
+  onFill(fill) {
+    const trade = serializeTrade(fill);
+    this.recentTrades = [trade, ...this.recentTrades].slice(0, RECENT_TRADES_LIMIT);
+    this.broadcast('trade', trade);
+  }
+
+  // A reverted fill never happened, so its print leaves the tape
+  onRevert(fill) {
+    this.recentTrades = this.recentTrades.filter((trade) => trade.id !== fill.id);
+    this.broadcast('revert', { id: fill.id });
+  }
+
+  broadcast(event, data) {
+    this.sequence += 1;
+    for (const client of this.clients) {
+      this.write(client, event, { seq: this.sequence, ...data });
+    }
+  }
+
+  write(client, event, data) {
+    client.res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
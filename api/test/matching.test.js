@@ -0,0 +1,129 @@
+// Matching Engine
+// Sweeps across several levels under a slippage guard, fill-or-kill orders,
+// refused self-trades and reverting a fill whose settlement failed.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OrderBook, OrderRejectedError, serializeFill } from '../matching.js';
+import { fromUnits } from '../decimal.js';
+import { ORDER_STATUS, ORDER_TYPES } from '../../shared/contract.mjs';
+
+const SELLER = '0xseller';
+const BUYER = '0xbuyer';
+
+// Asks of 10 at 2.00 and 10 at 2.50
+function bookWithTwoAsks() {
+  const book = new OrderBook({ market: 'DMT-USDC' });
+  book.submit({ owner: SELLER, isBuy: false, amount: '10', price: '2' });
+  book.submit({ owner: SELLER, isBuy: false, amount: '10', price: '2.5' });
+  return book;
+}
+
+function restingAsks(book) {
+  return book.getLevels().asks.map((level) => [fromUnits(level.price), fromUnits(level.amount)]);
+}
+
+describe('multi-level sweeps', () => {
+  it('fills every level within the slippage guard', () => {
+    const book = bookWithTwoAsks();
+    const { order, fills } = book.submit({
+      owner: BUYER, type: ORDER_TYPES.MARKET, isBuy: true, amount: '20', worstPrice: '2.5125',
+    });
+
+    assert.equal(order.status, ORDER_STATUS.FILLED);
+    assert.deepEqual(fills.map((fill) => serializeFill(fill).price), ['2', '2.5']);
+    assert.deepEqual(restingAsks(book), []);
+  });
+
+  it('stops at the slippage guard and cancels the remainder', () => {
+    const book = bookWithTwoAsks();
+    const { order, fills } = book.submit({
+      owner: BUYER, type: ORDER_TYPES.MARKET, isBuy: true, amount: '20', worstPrice: '2.26125',
+    });
+
+    assert.equal(order.status, ORDER_STATUS.CANCELLED);
+    assert.equal(fromUnits(order.filled), '10');
+    assert.equal(fills.length, 1);
+    assert.deepEqual(restingAsks(book), [['2.5', '10']]);
+  });
+
+  it('does not rest a limit remainder the guard stopped short of the book', () => {
+    const book = bookWithTwoAsks();
+    const { order } = book.submit({ owner: BUYER, isBuy: true, amount: '20', price: '2.5', worstPrice: '2.2' });
+
+    assert.equal(order.status, ORDER_STATUS.CANCELLED);
+    assert.deepEqual(book.getLevels().bids, []);
+  });
+});
+
+describe('fill-or-kill orders', () => {
+  it('fill in full across levels', () => {
+    const book = bookWithTwoAsks();
+    const { order, fills } = book.submit({ owner: BUYER, type: ORDER_TYPES.FOK, isBuy: true, amount: '20', price: '2.5' });
+
+    assert.equal(order.status, ORDER_STATUS.FILLED);
+    assert.equal(fills.length, 2);
+  });
+
+  it('are rejected without touching the book when liquidity is short', () => {
+    const book = bookWithTwoAsks();
+
+    assert.throws(
+      () => book.submit({ owner: BUYER, type: ORDER_TYPES.FOK, isBuy: true, amount: '25', price: '2.5' }),
+      OrderRejectedError
+    );
+    assert.deepEqual(restingAsks(book), [['2', '10'], ['2.5', '10']]);
+  });
+
+  it('only count liquidity within the slippage guard', () => {
+    const book = bookWithTwoAsks();
+
+    assert.throws(
+      () => book.submit({ owner: BUYER, type: ORDER_TYPES.FOK, isBuy: true, amount: '20', price: '2.5', worstPrice: '2.26125' }),
+      /only 10 available at 2.26125 or better/
+    );
+  });
+});
+
+describe('self-trades', () => {
+  it('are refused when an order would match its owner\'s resting order', () => {
+    const book = bookWithTwoAsks();
+
+    assert.throws(
+      () => book.submit({ owner: SELLER, isBuy: true, amount: '5', price: '2' }),
+      /would match your own ask at 2/
+    );
+    assert.deepEqual(restingAsks(book), [['2', '10'], ['2.5', '10']]);
+  });
+
+  it('are not an issue when the own order lies beyond what the order takes', () => {
+    const book = bookWithTwoAsks();
+    book.submit({ owner: BUYER, isBuy: false, amount: '5', price: '1.9' });
+
+    const { order } = book.submit({ owner: SELLER, isBuy: true, amount: '5', price: '2' });
+
+    assert.equal(order.status, ORDER_STATUS.FILLED);
+    assert.deepEqual(restingAsks(book), [['2', '10'], ['2.5', '10']]);
+  });
+});
+
+describe('reverting a fill', () => {
+  it('gives both orders the amount back, once', () => {
+    const book = new OrderBook({ market: 'DMT-USDC' });
+    const { order: ask } = book.submit({ owner: SELLER, isBuy: false, amount: '10', price: '2' });
+    const { order: bid, fills: [fill] } = book.submit({ owner: BUYER, isBuy: true, amount: '10', price: '2' });
+    const reverts = [];
+    book.on('revert', (reverted) => reverts.push(reverted.id));
+
+    assert.equal(book.revertFill(fill).length, 2);
+    assert.deepEqual(book.revertFill(fill), []);
+
+    // The ask rests again, so the bid would cross it and is cancelled instead
+    assert.equal(ask.status, ORDER_STATUS.OPEN);
+    assert.equal(ask.filled, 0n);
+    assert.equal(bid.status, ORDER_STATUS.CANCELLED);
+    assert.equal(bid.filled, 0n);
+    assert.deepEqual(restingAsks(book), [['2', '10']]);
+    assert.deepEqual(reverts, [fill.id]);
+  });
+});
@@ -0,0 +1,74 @@
+// Profit and Loss
+// FIFO and average-cost results from a short fill history, with self-trades
+// counted as fees only and reverted fills left out.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computePnl } from '../pnl.js';
+import { accountView } from '../fills.js';
+import { COST_BASIS_METHODS, SETTLEMENT_STATUS } from '../../shared/contract.mjs';
+
+const TRADER = '0xtrader';
+const OTHER = '0xother';
+
+let sequence = 0;
+
+// A serialized fill in which the trader took `side` from OTHER, with no fees
+function fill(side, amount, price, changes = {}) {
+  sequence += 1;
+  return {
+    id: `fill_${sequence}`,
+    market: 'DMT-USDC',
+    makerOrderId: `maker_${sequence}`,
+    takerOrderId: `taker_${sequence}`,
+    maker: OTHER,
+    taker: TRADER,
+    isBuy: side === 'buy',
+    price,
+    amount,
+    makerFee: '0',
+    takerFee: '0',
+    timestamp: sequence,
+    settlement: SETTLEMENT_STATUS.SETTLED,
+    ...changes,
+  };
+}
+
+describe('computePnl', () => {
+  const history = [fill('buy', '10', '1'), fill('buy', '10', '2'), fill('sell', '10', '3')];
+
+  it('closes the oldest lots first under FIFO', () => {
+    const { totals, assets } = computePnl(history, TRADER, COST_BASIS_METHODS.FIFO);
+
+    assert.equal(totals.realizedPnl, '20');
+    assert.equal(totals.unrealizedPnl, '10');
+    assert.equal(assets[0].position, '10');
+    assert.equal(assets[0].averageCost, '2');
+  });
+
+  it('closes at the average price under average cost', () => {
+    const { totals, assets } = computePnl(history, TRADER, COST_BASIS_METHODS.AVERAGE);
+
+    assert.equal(totals.realizedPnl, '15');
+    assert.equal(totals.unrealizedPnl, '15');
+    assert.equal(assets[0].averageCost, '1.5');
+  });
+
+  it('ignores fills whose settlement failed', () => {
+    const reverted = fill('buy', '10', '5', { settlement: SETTLEMENT_STATUS.FAILED });
+    const { totals } = computePnl([...history, reverted], TRADER);
+
+    assert.equal(totals.realizedPnl, '20');
+    assert.equal(totals.unrealizedPnl, '10');
+  });
+
+  it('counts a self-trade as both fees and no change in position', () => {
+    const selfTrade = fill('buy', '10', '3', { maker: TRADER, makerFee: '0.01', takerFee: '0.02' });
+    const { totals, assets } = computePnl([...history, selfTrade], TRADER);
+
+    assert.equal(assets[0].position, '10');
+    assert.equal(totals.realizedPnl, '20');
+    assert.equal(totals.fees, '0.03');
+    assert.equal(accountView(selfTrade, TRADER).fee, '0.03');
+  });
+});
@@ -0,0 +1,136 @@
+// Trade Settlement
+// Fills settled on the mock chain through the proving job queue, and the
+// revert the server applies when a settlement fails: escrow, order book,
+// candles and the trade tape all forget the fill.
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { MockChain } from '../chain/mock.js';
+import { JobQueue } from '../jobs.js';
+import { SettlementWorker } from '../settlement.js';
+import { EscrowLedger } from '../escrow.js';
+import { FillLedger } from '../fills.js';
+import { CandleAggregator } from '../candles.js';
+import { MarketStream } from '../stream.js';
+import { OrderBook, serializeFill, deserializeFill } from '../matching.js';
+import { toUnits, fromUnits } from '../decimal.js';
+import { ORDER_STATUS, SETTLEMENT_STATUS } from '../../shared/contract.mjs';
+import { TOKENS } from '../../shared/markets.mjs';
+
+const OPERATOR = { address: '0xoperator' };
+const FEE_RECIPIENT = '0xfees';
+const ESCROW = '0xescrow';
+const ORDER_BOOK = '0xorderbook';
+const SELLER = '0xseller';
+const BUYER = '0xbuyer';
+
+// A market wired the way the server wires it, with both traders funded in escrow
+async function setup({ fundContract = true } = {}) {
+  const chain = new MockChain({ tokens: Object.values(TOKENS) });
+  chain.deployEscrow(ESCROW, OPERATOR.address);
+  chain.deployOrderBook(ORDER_BOOK, OPERATOR.address, ESCROW);
+  if (fundContract) {
+    await chain.send(OPERATOR, { address: TOKENS.DMT.address, method: 'mint_to_private', args: [ESCROW, toUnits('10', 18)] });
+    await chain.send(OPERATOR, { address: TOKENS.USDC.address, method: 'mint_to_private', args: [ESCROW, toUnits('100', 6)] });
+  }
+
+  const escrow = new EscrowLedger();
+  escrow.adjust(SELLER, 'DMT', toUnits('10'));
+  escrow.adjust(BUYER, 'USDC', toUnits('100'));
+
+  const book = new OrderBook({ market: 'DMT-USDC', makerFeeBps: 10, takerFeeBps: 20 });
+  const fillLedger = new FillLedger();
+  const candles = new CandleAggregator();
+  const stream = new MarketStream(book);
+  const settlement = new SettlementWorker({
+    chain, jobs: new JobQueue(), operator: OPERATOR, orderBook: ORDER_BOOK, escrow: ESCROW, feeRecipient: FEE_RECIPIENT,
+  });
+
+  book.on('fill', (fill) => {
+    escrow.applyFill(fill);
+    const serialized = serializeFill(fill);
+    fillLedger.record(serialized);
+    candles.record(serialized);
+    settlement.submit(serialized);
+  });
+  settlement.on('settled', (fill, txHash) => {
+    fillLedger.update(fill.id, { settlement: SETTLEMENT_STATUS.SETTLED, settlementTxHash: txHash });
+  });
+  settlement.on('failed', (fill, error) => {
+    if (fillLedger.get(fill.id).settlement === SETTLEMENT_STATUS.FAILED) return;
+    fillLedger.update(fill.id, { settlement: SETTLEMENT_STATUS.FAILED, settlementError: error.message });
+    const internal = deserializeFill(fill);
+    escrow.revertFill(internal);
+    book.revertFill(internal);
+    candles.rebuild(fillLedger.getMarketFills(fill.market));
+  });
+
+  return { chain, escrow, book, fillLedger, candles, stream, settlement };
+}
+
+// Rest an ask of 10 at 2 and take it in full
+function trade(book) {
+  const { order: ask } = book.submit({ owner: SELLER, isBuy: false, amount: '10', price: '2' });
+  const { fills: [fill] } = book.submit({ owner: BUYER, isBuy: true, amount: '10', price: '2' });
+  return { ask, fill };
+}
+
+describe('settlement', () => {
+  it('settles a fill on chain and pays the fees out of escrow', async () => {
+    const { chain, escrow, book, fillLedger, settlement } = await setup();
+    const { fill } = trade(book);
+
+    const [settled, txHash] = await once(settlement, 'settled');
+
+    assert.equal(settled.id, fill.id);
+    assert.match(txHash, /^0x/);
+    assert.equal(await chain.isFillSettled(OPERATOR, { orderBook: ORDER_BOOK, fillId: fill.id }), true);
+    // 0.1% maker and 0.2% taker fees on a notional of 20 USDC
+    assert.equal(fromUnits((await chain.getBalances({ address: FEE_RECIPIENT }, TOKENS.USDC.address)).private, 6), '0.06');
+    assert.equal(fromUnits(escrow.getBalance(BUYER, 'DMT')), '10');
+    assert.equal(fillLedger.get(fill.id).settlement, SETTLEMENT_STATUS.SETTLED);
+  });
+
+  it('does not settle a fill twice when it is resubmitted', async () => {
+    const { book, settlement } = await setup();
+    trade(book);
+    const [fill] = await once(settlement, 'settled');
+
+    settlement.reconcile([fill]);
+    const [, txHash] = await once(settlement, 'settled');
+
+    assert.equal(txHash, null);
+  });
+});
+
+describe('a failed settlement', () => {
+  it('is reverted in escrow, the book, the candles and the trade tape', async () => {
+    const { escrow, book, fillLedger, candles, stream, settlement } = await setup({ fundContract: false });
+    const { ask, fill } = trade(book);
+    assert.equal(stream.recentTrades.length, 1);
+
+    const [, error] = await once(settlement, 'failed');
+
+    assert.match(error.message, /do not cover the fill/);
+    assert.equal(fillLedger.get(fill.id).settlement, SETTLEMENT_STATUS.FAILED);
+    assert.equal(fromUnits(escrow.getBalance(SELLER, 'DMT')), '10');
+    assert.equal(fromUnits(escrow.getBalance(BUYER, 'USDC')), '100');
+    assert.equal(escrow.getBalance(BUYER, 'DMT'), 0n);
+    assert.equal(ask.status, ORDER_STATUS.OPEN);
+    assert.equal(ask.filled, 0n);
+    assert.deepEqual(candles.query({ interval: '1m' }), []);
+    assert.deepEqual(stream.recentTrades, []);
+  });
+
+  it('is only reverted once when reported again', async () => {
+    const { escrow, book, settlement } = await setup({ fundContract: false });
+    const { fill } = trade(book);
+    const [failed, error] = await once(settlement, 'failed');
+
+    settlement.emit('failed', failed, error);
+
+    assert.deepEqual(book.revertFill(fill), []);
+    assert.equal(fromUnits(escrow.getBalance(BUYER, 'USDC')), '100');
+  });
+});
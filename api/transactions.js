@@ -0,0 +1,158 @@
+// Transactions
+// Chain transactions run in the background so routes can answer with a
+// handle straight away. Each handle waits in the proving job queue, then
+// moves simulating -> proving -> sent -> mined, or to failed, and clients
+// poll it until it settles. Orders and cancels get handles too: an order's
+// follows the settlement of its fills, and one with nothing to send on chain
+// is confirmed as soon as it is created. Handles live in memory only and
+// are dropped a while after they settle.
+
+import { TX_STATUS } from '../shared/contract.mjs';
+import { JobTimeoutError, finalResult } from './jobs.js';
+
+const DEFAULT_RETAIN_MS = 60 * 60 * 1000;
+const DEFAULT_LIST_LIMIT = 20;
+
+function isSettled(tx) {
+  return tx.status === TX_STATUS.MINED || tx.status === TX_STATUS.FAILED || tx.status === TX_STATUS.CONFIRMED;
+}
+
+export class TransactionTracker {
+  /**
+   * @param {import('./jobs.js').JobQueue} jobs Queue the transactions are proved in
+   * @param {number} [retainMs] How long settled transactions stay queryable
+   */
+  constructor(jobs, retainMs = DEFAULT_RETAIN_MS) {
+    this.jobs = jobs;
+    this.retainMs = retainMs;
+    this.sequence = 0;
+    // id -> { owner, tx }
+    this.transactions = new Map();
+  }
+
+  /**
+   * Queue a chain transaction to run in the background
+   * @param {string} owner Address the transaction is sent for
+   * @param {object} details
+   * @param {string} details.kind One of TX_KINDS
+   * @param {string} details.description
+   * @param {string} [details.sender] Account that signs it, when not the owner
+   * @param {(error: Error) => void} [details.onFail] Called once if it finally fails
+   * @param {(report: (status: string, update?: { txHash?: string }) => void) => Promise<{ txHash: string, blockNumber: number }>} run
+   *   Sends the transaction, reporting each step it reaches, and resolves once mined;
+   *   called again if a transient failure is retried
+   * @returns {object} The transaction handle, updated in place as it progresses
+   */
+  start(owner, { kind, description, sender = owner, onFail }, run) {
+    const tx = this.create(owner, kind, description);
+    const report = (status, update) => this.report(tx, status, update);
+
+    const { job, result } = this.jobs.enqueue(owner, kind, () => run(report), sender);
+    tx.jobId = job.id;
+
+    // A timed out transaction may still mine, so it only fails if its attempt does
+    result.catch((error) => {
+      if (error instanceof JobTimeoutError) {
+        report(tx.status, { error: `${error.message}; still waiting for the transaction` });
+      }
+    });
+    this.settle(tx, finalResult(result), onFail);
+
+    return tx;
+  }
+
+  /**
+   * Track chain work already queued elsewhere, such as the settlements of an
+   * order's fills in the operator's lane
+   * @param {string} owner Address the work is done for
+   * @param {object} details
+   * @param {string} details.kind One of TX_KINDS
+   * @param {string} details.description
+   * @param {string | null} [details.jobId] Job whose queue position to report
+   * @param {Promise<{ txHash: string | null, blockNumber?: number }> | null} settled
+   *   Resolves once the work is mined; null when there is nothing to send
+   * @returns {object} The transaction handle, updated in place as it progresses
+   */
+  follow(owner, { kind, description, jobId = null }, settled) {
+    const tx = this.create(owner, kind, description);
+    tx.jobId = jobId;
+    if (settled) {
+      this.settle(tx, settled);
+    } else {
+      this.report(tx, TX_STATUS.CONFIRMED);
+    }
+    return tx;
+  }
+
+  // Register a new queued handle
+  create(owner, kind, description) {
+    this.prune();
+
+    const now = Date.now();
+    const tx = {
+      id: `tx_${now}_${++this.sequence}`,
+      kind,
+      status: TX_STATUS.QUEUED,
+      description,
+      jobId: null,
+      txHash: null,
+      blockNumber: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.transactions.set(tx.id, { owner, tx });
+    return tx;
+  }
+
+  // Move a handle to the step it reached; settled handles no longer change
+  report(tx, status, update = {}) {
+    if (isSettled(tx)) return;
+    Object.assign(tx, update, { status, updatedAt: Date.now() });
+  }
+
+  // Mine or fail a handle with the outcome of its work
+  settle(tx, result, onFail) {
+    result.then(
+      ({ txHash, blockNumber = null }) => this.report(tx, TX_STATUS.MINED, { txHash, blockNumber, error: null }),
+      (error) => {
+        console.error(`Transaction ${tx.id} failed:`, error.message);
+        this.report(tx, TX_STATUS.FAILED, { error: error.message });
+        onFail?.(error);
+      }
+    );
+  }
+
+  /**
+   * Look up a transaction handle
+   * @param {string} id
+   * @returns {{ owner: string, tx: object } | undefined}
+   */
+  get(id) {
+    return this.transactions.get(id);
+  }
+
+  /**
+   * An owner's most recent transactions
+   * @param {string} owner
+   * @param {number} [limit]
+   * @returns {object[]} Transaction handles, newest first
+   */
+  listByOwner(owner, limit = DEFAULT_LIST_LIMIT) {
+    return [...this.transactions.values()]
+      .filter((entry) => entry.owner === owner)
+      .map((entry) => entry.tx)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, limit);
+  }
+
+  // Forget transactions that settled longer ago than the retention window
+  prune() {
+    const cutoff = Date.now() - this.retainMs;
+    for (const [id, { tx }] of this.transactions) {
+      if (isSettled(tx) && tx.updatedAt < cutoff) {
+        this.transactions.delete(id);
+      }
+    }
+  }
+}
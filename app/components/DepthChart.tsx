@@ -0,0 +1,163 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import type { BookLevel } from '../lib/marketStream';
+import { formatFixed } from '../lib/levels';
+import { useMarket } from '../lib/markets';
+
+interface DepthChartProps {
+  bids: BookLevel[];
+  asks: BookLevel[];
+  height?: number;
+}
+
+interface DepthPoint {
+  price: number;
+  cumulative: number;
+  notional: number;
+}
+
+interface Readout {
+  x: number;
+  side: 'bid' | 'ask';
+  point: DepthPoint;
+}
+
+const WIDTH = 600;
+const PADDING_TOP = 12;
+const PADDING_BOTTOM = 20;
+
+// Running size and notional from the best price outwards
+function accumulate(levels: BookLevel[]): DepthPoint[] {
+  let cumulative = 0;
+  let notional = 0;
+  return levels.map((level) => {
+    const price = parseFloat(level.price);
+    const amount = parseFloat(level.amount);
+    cumulative += amount;
+    notional += amount * price;
+    return { price, cumulative, notional };
+  });
+}
+
+// Depth available at a price: every level at that price or better
+function depthAt(points: DepthPoint[], price: number, isBid: boolean): DepthPoint {
+  let reached: DepthPoint = { price, cumulative: 0, notional: 0 };
+  for (const point of points) {
+    if (isBid ? point.price < price : point.price > price) break;
+    reached = point;
+  }
+  return { ...reached, price };
+}
+
+export default function DepthChart({ bids, asks, height = 240 }: DepthChartProps) {
+  const [readout, setReadout] = useState<Readout | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const market = useMarket();
+
+  if (bids.length === 0 && asks.length === 0) {
+    return (
+      <div className="text-center text-gray-600 py-12 bg-gray-800/30 rounded-lg border border-gray-700/50">
+        No resting orders to chart
+      </div>
+    );
+  }
+
+  // Levels arrive sorted best price first: bids descending, asks ascending
+  const bidPoints = accumulate(bids);
+  const askPoints = accumulate(asks);
+  const bestBid = bidPoints[0]?.price;
+  const bestAsk = askPoints[0]?.price;
+  const mid = bestBid !== undefined && bestAsk !== undefined
+    ? (bestBid + bestAsk) / 2
+    : (bestBid ?? bestAsk)!;
+
+  // Centre the mid and fit the farthest level on either side
+  const lowest = bidPoints.length > 0 ? bidPoints[bidPoints.length - 1].price : mid;
+  const highest = askPoints.length > 0 ? askPoints[askPoints.length - 1].price : mid;
+  const halfWidth = Math.max(mid - lowest, highest - mid, mid * 0.01);
+  const minPrice = mid - halfWidth;
+  const maxPrice = mid + halfWidth;
+  const maxDepth = Math.max(
+    bidPoints[bidPoints.length - 1]?.cumulative ?? 0,
+    askPoints[askPoints.length - 1]?.cumulative ?? 0
+  );
+
+  const plotHeight = height - PADDING_TOP - PADDING_BOTTOM;
+  const x = (price: number) => ((price - minPrice) / (maxPrice - minPrice)) * WIDTH;
+  const y = (depth: number) => PADDING_TOP + plotHeight - (depth / maxDepth) * plotHeight;
+  const baseline = y(0);
+
+  // Step outwards from the best price, holding each cumulative size until the next level
+  const stepPath = (points: DepthPoint[], edge: number) => {
+    if (points.length === 0) return '';
+    let path = `M ${x(points[0].price)} ${baseline}`;
+    points.forEach((point, index) => {
+      if (index > 0) path += ` H ${x(point.price)}`;
+      path += ` V ${y(point.cumulative)}`;
+    });
+    return `${path} H ${x(edge)} V ${baseline} Z`;
+  };
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const chartX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const price = minPrice + (chartX / WIDTH) * (maxPrice - minPrice);
+    const side = price <= mid ? 'bid' : 'ask';
+    const point = side === 'bid' ? depthAt(bidPoints, price, true) : depthAt(askPoints, price, false);
+    setReadout({ x: chartX, side, point });
+  };
+
+  const formatPrice = (price: number) => formatFixed(price, market.priceDecimals);
+  const formatAmount = (amount: number) => formatFixed(amount, market.amountDecimals);
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full bg-gray-800/30 rounded-lg border border-gray-700/50 cursor-crosshair"
+        style={{ height }}
+        onMouseMove={handleMove}
+        onMouseLeave={() => setReadout(null)}
+      >
+        <path d={stepPath(bidPoints, minPrice)} className="fill-green-500/20 stroke-green-400" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <path d={stepPath(askPoints, maxPrice)} className="fill-red-500/20 stroke-red-400" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+
+        {/* Mid price */}
+        <line x1={x(mid)} x2={x(mid)} y1={PADDING_TOP} y2={baseline} className="stroke-purple-500/50" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+
+        {readout && (
+          <>
+            <line x1={readout.x} x2={readout.x} y1={PADDING_TOP} y2={baseline} className="stroke-gray-400" vectorEffect="non-scaling-stroke" />
+            <line x1={0} x2={WIDTH} y1={y(readout.point.cumulative)} y2={y(readout.point.cumulative)} className="stroke-gray-600" strokeDasharray="2 4" vectorEffect="non-scaling-stroke" />
+          </>
+        )}
+      </svg>
+
+      {/* Axis labels sit outside the SVG so text is not stretched */}
+      <div className="absolute left-2 top-1 text-[10px] text-gray-500 font-mono">{formatAmount(maxDepth)}</div>
+      <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+        <span>{formatPrice(minPrice)}</span>
+        <span className="text-purple-400">Mid {formatPrice(mid)}</span>
+        <span>{formatPrice(maxPrice)}</span>
+      </div>
+
+      {readout && (
+        <div
+          className="absolute top-2 pointer-events-none bg-gray-900/95 border border-purple-700/30 rounded-lg px-3 py-2 text-xs font-mono space-y-0.5"
+          style={readout.x < WIDTH / 2 ? { left: `${(readout.x / WIDTH) * 100 + 2}%` } : { right: `${100 - (readout.x / WIDTH) * 100 + 2}%` }}
+        >
+          <div className={readout.side === 'bid' ? 'text-green-400' : 'text-red-400'}>
+            {readout.side === 'bid' ? 'Bids' : 'Asks'} at {formatPrice(readout.point.price)}
+          </div>
+          <div className="text-gray-300">Size {formatAmount(readout.point.cumulative)}</div>
+          <div className="text-gray-400">Notional ${formatPrice(readout.point.notional)}</div>
+        </div>
+      )}
+    </div>
+  );
+}
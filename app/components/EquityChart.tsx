@@ -0,0 +1,88 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import type { EquityPoint } from '../lib/api';
+
+interface EquityChartProps {
+  points: EquityPoint[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING_Y = 8;
+
+function formatPnl(value: number): string {
+  const formatted = Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${value < 0 ? '-' : ''}$${formatted}`;
+}
+
+export default function EquityChart({ points, height = 120 }: EquityChartProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  if (points.length === 0) {
+    return (
+      <div className="text-center text-gray-600 py-8 bg-gray-800/30 rounded-lg border border-gray-700/50 text-sm">
+        No trades yet to chart
+      </div>
+    );
+  }
+
+  // Points are spaced evenly by trade rather than by time, so bursts stay readable
+  const values = points.map((point) => parseFloat(point.netPnl));
+  const low = Math.min(0, ...values);
+  const high = Math.max(0, ...values);
+  const range = high - low || 1;
+  const plotHeight = height - PADDING_Y * 2;
+  const x = (index: number) => (points.length === 1 ? WIDTH : (index / (points.length - 1)) * WIDTH);
+  const y = (value: number) => PADDING_Y + plotHeight - ((value - low) / range) * plotHeight;
+
+  const line = values.map((value, index) => `${index === 0 ? 'M' : 'L'} ${x(index)} ${y(value)}`).join(' ');
+  const area = `M ${x(0)} ${y(0)} ${line.replace(/^M/, 'L')} L ${x(values.length - 1)} ${y(0)} Z`;
+  const latest = values[values.length - 1];
+  const isUp = latest >= 0;
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const fraction = (e.clientX - rect.left) / rect.width;
+    setHovered(Math.min(points.length - 1, Math.max(0, Math.round(fraction * (points.length - 1)))));
+  };
+
+  const shown = hovered ?? points.length - 1;
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full bg-gray-800/30 rounded-lg border border-gray-700/50 cursor-crosshair"
+        style={{ height }}
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHovered(null)}
+      >
+        <path d={area} className={isUp ? 'fill-green-500/10' : 'fill-red-500/10'} />
+        <path d={line} fill="none" className={isUp ? 'stroke-green-400' : 'stroke-red-400'} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+
+        {/* Break-even */}
+        <line x1={0} x2={WIDTH} y1={y(0)} y2={y(0)} className="stroke-gray-600" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+
+        {hovered !== null && (
+          <line x1={x(hovered)} x2={x(hovered)} y1={PADDING_Y} y2={height - PADDING_Y} className="stroke-gray-400" vectorEffect="non-scaling-stroke" />
+        )}
+      </svg>
+
+      {/* Labels sit outside the SVG so text is not stretched */}
+      <div className="absolute left-2 top-1 text-[10px] text-gray-500 font-mono">{formatPnl(high)}</div>
+      <div className="absolute left-2 text-[10px] text-gray-500 font-mono" style={{ top: height - 16 }}>{formatPnl(low)}</div>
+      <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+        <span>{new Date(points[0].time).toLocaleDateString()}</span>
+        <span className={values[shown] >= 0 ? 'text-green-400' : 'text-red-400'}>
+          {formatPnl(values[shown])} · {new Date(points[shown].time).toLocaleString()}
+        </span>
+        <span>{new Date(points[points.length - 1].time).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  getBalance,
+  getSessionToken,
+  depositToEscrow,
+  withdrawFromEscrow,
+  type Balance,
+  type TokenSymbol,
+} from '../lib/api';
+import { escrowBalanceOf, refreshEscrow, useEscrow } from '../lib/escrow';
+import { useMarket } from '../lib/markets';
+import { trackTransaction } from '../lib/notifications';
+import { parse, Decimal } from '../../shared/contract.mjs';
+
+interface EscrowPanelProps {
+  address: string | null;
+}
+
+type EscrowAction = 'deposit' | 'withdraw';
+
+function isValidAmount(value: string): boolean {
+  try {
+    parse(Decimal, value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export default function EscrowPanel({ address }: EscrowPanelProps) {
+  const [action, setAction] = useState<EscrowAction>('deposit');
+  const [token, setToken] = useState<TokenSymbol | null>(null);
+  const [amount, setAmount] = useState('');
+  const [wallet, setWallet] = useState<Balance | null>(null);
+  const [pending, setPending] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const market = useMarket();
+  const escrow = useEscrow(address);
+
+  // A token picked in another market falls back to this market's base token
+  const tokens = [market.baseToken, market.quoteToken];
+  const selected = tokens.find((option) => option.symbol === token) ?? market.baseToken;
+  const escrowed = escrowBalanceOf(escrow, selected.symbol);
+
+  useEffect(() => {
+    if (!address) return;
+    refreshEscrow(address);
+  }, [address]);
+
+  // Reload the wallet balance for a new token and whenever a transaction settles
+  useEffect(() => {
+    if (!address) return;
+
+    getBalance(selected.address)
+      .then(setWallet)
+      .catch((err) => {
+        console.error('Failed to load balance:', err);
+        setWallet(null);
+      });
+  }, [address, selected.address, pending]);
+
+  const available = action === 'deposit'
+    ? wallet?.privateBalance ?? null
+    : escrowed?.available ?? null;
+
+  const amountError = amount && !isValidAmount(amount)
+    ? 'Enter a positive amount'
+    : amount && available !== null && parseFloat(amount) > parseFloat(available)
+    ? action === 'deposit'
+      ? `Exceeds your private balance of ${available}`
+      : `Exceeds the ${available} available outside open orders`
+    : '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!address || !amount || amountError) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const submit = action === 'deposit' ? depositToEscrow : withdrawFromEscrow;
+      const { transaction } = await submit(selected.symbol as TokenSymbol, amount);
+      setAmount('');
+      setPending((count) => count + 1);
+      // Withdrawals leave the available balance as soon as they are accepted
+      refreshEscrow(address);
+
+      // The notification tray reports the outcome; balances reload once it settles
+      trackTransaction(action === 'deposit' ? 'Escrow deposit' : 'Escrow withdrawal', transaction, getSessionToken())
+        .finally(() => {
+          setPending((count) => count - 1);
+          refreshEscrow(address);
+        });
+    } catch (err) {
+      setError(`${action === 'deposit' ? 'Deposit' : 'Withdrawal'} failed: ` + (err as Error).message);
+      console.error('Escrow error:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-purple-700/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500';
+
+  return (
+    <div className="bg-gray-900 border border-purple-700/30 rounded-xl p-6 shadow-xl">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-purple-300">Escrow</h2>
+        {pending > 0 && (
+          <div className="flex items-center gap-2 text-xs text-purple-400">
+            <div className="spinner"></div>
+            {pending} pending
+          </div>
+        )}
+      </div>
+
+      {/* Action Tabs */}
+      <div className="flex gap-2 mb-4">
+        {(['deposit', 'withdraw'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setAction(option)}
+            className={`flex-1 py-2 px-4 rounded-lg font-medium transition-colors ${
+              action === option
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            {option.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {/* Escrowed Funds */}
+      {escrowed && (
+        <div className="grid grid-cols-3 gap-2 text-sm bg-gray-800 border border-gray-700 rounded-lg p-3 mb-4">
+          <div>
+            <div className="text-gray-500 text-xs">Escrowed</div>
+            <div className="text-white font-mono">{escrowed.escrowed}</div>
+          </div>
+          <div>
+            <div className="text-gray-500 text-xs">In orders</div>
+            <div className="text-yellow-400 font-mono">{escrowed.locked}</div>
+          </div>
+          <div>
+            <div className="text-gray-500 text-xs">Available</div>
+            <div className="text-purple-300 font-mono">{escrowed.available}</div>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Token Selector */}
+        <div className="flex gap-2">
+          {tokens.map((option) => (
+            <button
+              key={option.symbol}
+              type="button"
+              onClick={() => setToken(option.symbol as TokenSymbol)}
+              className={`flex-1 py-1.5 rounded text-sm font-medium transition-colors ${
+                selected.symbol === option.symbol
+                  ? 'bg-gray-700 text-white'
+                  : 'bg-gray-800 text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              {option.symbol}
+            </button>
+          ))}
+        </div>
+
+        {/* Amount Input */}
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-300">
+              Amount
+            </label>
+            {available !== null && (
+              <button
+                type="button"
+                onClick={() => setAmount(available)}
+                className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
+              >
+                {action === 'deposit' ? 'Wallet (private)' : 'Available'}: {available} {selected.symbol}
+              </button>
+            )}
+          </div>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value.trim())}
+            placeholder="0.00"
+            className={inputClassName}
+          />
+          {amountError && (
+            <div className="text-xs text-red-400 mt-1">{amountError}</div>
+          )}
+        </div>
+
+        {(error || escrow.error) && (
+          <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3">
+            {error || escrow.error}
+          </div>
+        )}
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={!address || isSubmitting || !amount || !!amountError}
+          className="w-full bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 disabled:from-gray-700 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-all shadow-lg"
+        >
+          {isSubmitting
+            ? 'Submitting...'
+            : !address
+            ? 'Connect Wallet First'
+            : `${action === 'deposit' ? 'Deposit' : 'Withdraw'} ${selected.symbol}`}
+        </button>
+      </form>
+
+      {/* Escrow Notice */}
+      <div className="mt-4 text-xs text-purple-400 bg-purple-900/20 border border-purple-700/30 rounded-lg p-3">
+        Orders trade against escrowed funds. Deposits are credited once mined; open orders lock what they could spend.
+      </div>
+    </div>
+  );
+}
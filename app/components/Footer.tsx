@@ -1,10 +1,12 @@
 'use client';
 
 import { useState } from 'react';
-import { CONTRACT_ADDRESSES, NETWORK_CONFIG } from '../config';
+import { useNetwork } from '../lib/network';
 
 export default function Footer() {
   const [isExpanded, setIsExpanded] = useState(false);
+  const network = useNetwork();
+  const { contracts } = network;
 
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
@@ -27,7 +29,7 @@ export default function Footer() {
             <div className="flex items-center gap-3">
               <div className="text-left">
                 <h3 className="font-semibold text-purple-300">Contract Addresses</h3>
-                <p className="text-xs text-gray-500">View deployed contracts on Devnet</p>
+                <p className="text-xs text-gray-500">View deployed contracts on {network.name}</p>
               </div>
             </div>
             <svg
@@ -49,83 +51,91 @@ export default function Footer() {
 
           {isExpanded && (
             <div className="mt-3 p-4 bg-gray-800/30 rounded-lg border border-purple-700/20 space-y-3">
-              {/* Token */}
-              <div className="group">
-                <div className="flex items-center justify-between mb-1">
-                  <span className="text-sm font-medium text-purple-400">Token Contract</span>
-                  <button
-                    onClick={() => copyToClipboard(CONTRACT_ADDRESSES.token.toString(), 'Token')}
-                    className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
-                  >
-                    Copy
-                  </button>
-                </div>
-                <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
-                  {CONTRACT_ADDRESSES.token.toString()}
-                </div>
-              </div>
+              {contracts ? (
+                <>
+                  {/* Token */}
+                  <div className="group">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-medium text-purple-400">Token Contract</span>
+                      <button
+                        onClick={() => copyToClipboard(contracts.token.toString(), 'Token')}
+                        className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                    <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
+                      {contracts.token.toString()}
+                    </div>
+                  </div>
 
-              {/* Escrow */}
-              <div className="group">
-                <div className="flex items-center justify-between mb-1">
-                  <span className="text-sm font-medium text-purple-400">Escrow Contract</span>
-                  <button
-                    onClick={() => copyToClipboard(CONTRACT_ADDRESSES.escrow.toString(), 'Escrow')}
-                    className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
-                  >
-                    Copy
-                  </button>
-                </div>
-                <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
-                  {CONTRACT_ADDRESSES.escrow.toString()}
-                </div>
-              </div>
+                  {/* Escrow */}
+                  <div className="group">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-medium text-purple-400">Escrow Contract</span>
+                      <button
+                        onClick={() => copyToClipboard(contracts.escrow.toString(), 'Escrow')}
+                        className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                    <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
+                      {contracts.escrow.toString()}
+                    </div>
+                  </div>
 
-              {/* OrderBook */}
-              <div className="group">
-                <div className="flex items-center justify-between mb-1">
-                  <span className="text-sm font-medium text-purple-400">OrderBook Contract</span>
-                  <button
-                    onClick={() => copyToClipboard(CONTRACT_ADDRESSES.orderBook.toString(), 'OrderBook')}
-                    className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
-                  >
-                    Copy
-                  </button>
-                </div>
-                <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
-                  {CONTRACT_ADDRESSES.orderBook.toString()}
-                </div>
-              </div>
+                  {/* OrderBook */}
+                  <div className="group">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-medium text-purple-400">OrderBook Contract</span>
+                      <button
+                        onClick={() => copyToClipboard(contracts.orderBook.toString(), 'OrderBook')}
+                        className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                    <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
+                      {contracts.orderBook.toString()}
+                    </div>
+                  </div>
 
-              {/* Sponsored FPC */}
-              <div className="group">
-                <div className="flex items-center justify-between mb-1">
-                  <span className="text-sm font-medium text-purple-400">Sponsored FPC</span>
-                  <button
-                    onClick={() => copyToClipboard(CONTRACT_ADDRESSES.sponsoredFpc.toString(), 'FPC')}
-                    className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
-                  >
-                    Copy
-                  </button>
+                  {/* Sponsored FPC */}
+                  <div className="group">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm font-medium text-purple-400">Sponsored FPC</span>
+                      <button
+                        onClick={() => copyToClipboard(contracts.sponsoredFpc.toString(), 'FPC')}
+                        className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
+                      >
+                        Copy
+                      </button>
+                    </div>
+                    <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
+                      {contracts.sponsoredFpc.toString()}
+                    </div>
+                  </div>
+                </>
+              ) : (
+                <div className="text-sm text-gray-500">
+                  No contracts deployed on {network.name} yet
                 </div>
-                <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
-                  {CONTRACT_ADDRESSES.sponsoredFpc.toString()}
-                </div>
-              </div>
+              )}
 
-              {/* PXE URL */}
+              {/* Node URL */}
               <div className="group">
                 <div className="flex items-center justify-between mb-1">
-                  <span className="text-sm font-medium text-purple-400">PXE URL</span>
+                  <span className="text-sm font-medium text-purple-400">Node URL</span>
                   <button
-                    onClick={() => copyToClipboard(NETWORK_CONFIG.pxeUrl, 'PXE URL')}
+                    onClick={() => copyToClipboard(network.nodeUrl, 'Node URL')}
                     className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
                   >
                     Copy
                   </button>
                 </div>
                 <div className="font-mono text-xs text-gray-400 bg-gray-900/50 p-2 rounded border border-gray-700/50 break-all">
-                  {NETWORK_CONFIG.pxeUrl}
+                  {network.nodeUrl}
                 </div>
               </div>
             </div>
@@ -153,7 +163,7 @@ export default function Footer() {
               Documentation
             </a>
             <span>•</span>
-            <span className="text-gray-600">{NETWORK_CONFIG.chainId}</span>
+            <span className="text-gray-600">{network.chainId}</span>
           </div>
 
           <p className="text-sm text-gray-600">
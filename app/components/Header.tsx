@@ -1,15 +1,39 @@
 'use client';
 
+import { useState, useEffect } from 'react';
+import { switchAccount, useAccounts } from '../lib/accounts';
+import { MARKET_LIST, restoreMarket, selectMarket, useMarket } from '../lib/markets';
+import { useNetwork } from '../lib/network';
+import { useNetworkStatus } from '../lib/networkStatus';
+import NetworkStatus from './NetworkStatus';
+import { STATUS_CONFIG } from '../config';
+
 interface HeaderProps {
-  address: string | null;
   onConnectClick: () => void;
 }
 
-export default function Header({ address, onConnectClick }: HeaderProps) {
+export default function Header({ onConnectClick }: HeaderProps) {
+  const { accounts, activeAddress } = useAccounts();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const active = accounts.find((account) => account.address === activeAddress);
+  const market = useMarket();
+  const network = useNetwork();
+  const { stalled } = useNetworkStatus();
+
+  // The stored market is only readable once mounted in the browser
+  useEffect(() => {
+    restoreMarket();
+  }, []);
+
   const formatAddress = (addr: string) => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   };
 
+  const handleSelect = (address: string) => {
+    switchAccount(address);
+    setMenuOpen(false);
+  };
+
   return (
     <header className="sticky top-0 z-50 border-b border-purple-700/30 bg-gray-900/95 backdrop-blur-md shadow-lg">
       <div className="container mx-auto px-4 lg:px-6">
@@ -22,29 +46,68 @@ export default function Header({ address, onConnectClick }: HeaderProps) {
               </h1>
               <p className="text-xs text-gray-500 hidden sm:block">Private Trading Platform</p>
             </div>
+
+            {/* Market Selector */}
+            <select
+              value={market.id}
+              onChange={(e) => selectMarket(e.target.value)}
+              aria-label="Market"
+              className="px-2 py-1.5 bg-gray-800 border border-purple-700/30 rounded-lg text-sm font-medium text-purple-200 focus:outline-none focus:border-purple-500"
+            >
+              {MARKET_LIST.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.base}/{option.quote}
+                </option>
+              ))}
+            </select>
           </div>
 
           {/* Right Side - Network Status + Wallet */}
           <div className="flex items-center gap-3">
-            {/* Network Status Badge */}
-            <div className="hidden md:flex items-center gap-2 px-3 py-2 bg-purple-900/30 border border-purple-700/30 rounded-lg">
+            {/* Network Status + Switcher */}
+            <NetworkStatus />
+
+            {/* Wallet Button / Account Switcher */}
+            {active ? (
               <div className="relative">
-                <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                <div className="absolute inset-0 w-2 h-2 bg-green-500 rounded-full animate-ping"></div>
-              </div>
-              <span className="text-sm text-gray-300">Devnet v3.0.0</span>
-            </div>
+                <button
+                  onClick={() => setMenuOpen(!menuOpen)}
+                  disabled={accounts.length < 2}
+                  className="flex items-center gap-2 px-4 py-2 bg-purple-600/20 border border-purple-500/50 rounded-lg enabled:hover:bg-purple-600/30 transition-colors"
+                >
+                  <div className="w-2 h-2 bg-purple-400 rounded-full"></div>
+                  <span className="text-sm text-gray-300 hidden sm:inline">{active.label}</span>
+                  <span className="text-sm font-mono text-purple-300 hidden sm:inline">
+                    {formatAddress(active.address)}
+                  </span>
+                  <span className="text-sm text-purple-300 sm:hidden">
+                    {active.label}
+                  </span>
+                  {accounts.length > 1 && (
+                    <span className="text-xs text-gray-400">▾</span>
+                  )}
+                </button>
 
-            {/* Wallet Button */}
-            {address ? (
-              <div className="flex items-center gap-2 px-4 py-2 bg-purple-600/20 border border-purple-500/50 rounded-lg">
-                <div className="w-2 h-2 bg-purple-400 rounded-full"></div>
-                <span className="text-sm font-mono text-purple-300 hidden sm:inline">
-                  {formatAddress(address)}
-                </span>
-                <span className="text-sm font-mono text-purple-300 sm:hidden">
-                  Connected
-                </span>
+                {menuOpen && accounts.length > 1 && (
+                  <div className="absolute right-0 mt-2 w-64 bg-gray-900 border border-purple-700/30 rounded-lg shadow-xl overflow-hidden">
+                    {accounts.map((account) => (
+                      <button
+                        key={account.address}
+                        onClick={() => handleSelect(account.address)}
+                        className={`w-full flex justify-between items-center gap-2 px-4 py-2 text-left text-sm transition-colors ${
+                          account.address === activeAddress
+                            ? 'bg-purple-900/40 text-purple-200'
+                            : 'text-gray-300 hover:bg-gray-800'
+                        }`}
+                      >
+                        <span className="truncate">{account.label}</span>
+                        <span className="font-mono text-xs text-purple-300">
+                          {formatAddress(account.address)}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             ) : (
               <button
@@ -57,6 +120,13 @@ export default function Header({ address, onConnectClick }: HeaderProps) {
           </div>
         </div>
       </div>
+
+      {/* Stalled Chain Warning */}
+      {stalled && (
+        <div className="border-t border-yellow-700/30 bg-yellow-900/20 px-4 py-2 text-center text-sm text-yellow-400">
+          {network.name} has not produced a block in over {STATUS_CONFIG.stallMinutes} minutes. New orders and transfers may not settle until it recovers.
+        </div>
+      )}
     </header>
   );
 }
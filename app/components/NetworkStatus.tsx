@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { useNetworkStatus, type NetworkHealth } from '../lib/networkStatus';
+import { NETWORKS, selectNetwork, useNetwork } from '../lib/network';
+
+const HEALTH_STYLES: Record<NetworkHealth, { dot: string; text: string; label: string }> = {
+  checking: { dot: 'bg-gray-500', text: 'text-gray-400', label: 'Checking' },
+  healthy: { dot: 'bg-green-500', text: 'text-green-400', label: 'Healthy' },
+  degraded: { dot: 'bg-yellow-500', text: 'text-yellow-400', label: 'Degraded' },
+  down: { dot: 'bg-red-500', text: 'text-red-400', label: 'Down' },
+};
+
+function formatAgo(timestamp: number | null): string {
+  if (timestamp === null) return '—';
+  const seconds = Math.round((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s ago`;
+}
+
+export default function NetworkStatus() {
+  const [open, setOpen] = useState(false);
+  const network = useNetwork();
+  const status = useNetworkStatus();
+  const style = HEALTH_STYLES[status.health];
+
+  const rows: [string, string][] = [
+    ['Status', style.label],
+    ['Node version', status.nodeVersion ?? '—'],
+    ['Latest block', status.latestBlock?.toLocaleString() ?? '—'],
+    ['Proven block', status.provenBlock?.toLocaleString() ?? '—'],
+    ['Last new block', formatAgo(status.blockChangedAt)],
+    ['API latency', status.latencyMs !== null ? `${status.latencyMs} ms` : '—'],
+    ['Checked', formatAgo(status.checkedAt)],
+  ];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-label={`${network.name} status: ${style.label}`}
+        className="flex items-center gap-2 px-3 py-2 bg-purple-900/30 border border-purple-700/30 rounded-lg hover:bg-purple-900/50 transition-colors"
+      >
+        <div className="relative">
+          <div className={`w-2 h-2 rounded-full ${style.dot}`}></div>
+          {status.health === 'healthy' && (
+            <div className={`absolute inset-0 w-2 h-2 rounded-full animate-ping ${style.dot}`}></div>
+          )}
+        </div>
+        <span className="text-sm text-gray-300 hidden md:inline">{network.label}</span>
+        {status.latestBlock !== null && (
+          <span className="text-xs font-mono text-gray-500 hidden lg:inline">#{status.latestBlock}</span>
+        )}
+        <span className="text-xs text-gray-400">▾</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-900 border border-purple-700/30 rounded-lg shadow-xl overflow-hidden">
+          {/* Status Details */}
+          <div className="px-4 py-3 space-y-1 text-sm">
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-semibold text-purple-300">{network.name}</span>
+              <span className={`text-xs ${style.text}`}>{style.label}</span>
+            </div>
+            {rows.map(([label, value]) => (
+              <div key={label} className="flex justify-between">
+                <span className="text-gray-500">{label}</span>
+                <span className="font-mono text-gray-300">{value}</span>
+              </div>
+            ))}
+            {status.stalled && (
+              <div className="mt-2 text-xs text-yellow-400 bg-yellow-900/20 border border-yellow-700/30 rounded p-2">
+                No new block since {formatAgo(status.blockChangedAt)}; orders may not settle
+              </div>
+            )}
+            {status.error && (
+              <div className="mt-2 text-xs text-red-400 bg-red-900/20 border border-red-700/30 rounded p-2">
+                {status.error}
+              </div>
+            )}
+          </div>
+
+          {/* Network Switcher */}
+          <div className="border-t border-gray-800">
+            {NETWORKS.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => {
+                  setOpen(false);
+                  selectNetwork(option.id);
+                }}
+                className={`w-full flex justify-between items-center gap-2 px-4 py-2 text-left text-sm transition-colors ${
+                  option.id === network.id
+                    ? 'bg-purple-900/40 text-purple-200'
+                    : 'text-gray-300 hover:bg-gray-800'
+                }`}
+              >
+                <span className="truncate">{option.name}</span>
+                <span className="font-mono text-xs text-purple-300">{option.chainId}</span>
+              </button>
+            ))}
+            <div className="px-4 py-2 text-xs text-gray-500 border-t border-gray-800">
+              Switching reloads the app and reconnects to that network&apos;s API
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import { useEffect } from 'react';
+import { getTransactions, type TransactionStatus } from '../lib/api';
+import { getAccount, useAccounts } from '../lib/accounts';
+import { dismiss, trackTransaction, useNotifications, type NotificationTone } from '../lib/notifications';
+
+const STEPS: TransactionStatus[] = ['queued', 'simulating', 'proving', 'sent', 'mined'];
+
+const STEP_LABELS: Record<TransactionStatus, string> = {
+  queued: 'Queued',
+  simulating: 'Simulating',
+  proving: 'Proving',
+  sent: 'Sent',
+  mined: 'Mined',
+  failed: 'Failed',
+  confirmed: 'Confirmed',
+};
+
+const TONE_STYLES: Record<NotificationTone, string> = {
+  pending: 'border-purple-700/50 text-purple-300',
+  success: 'border-green-700/50 text-green-400',
+  error: 'border-red-700/50 text-red-400',
+};
+
+export default function NotificationTray() {
+  const notifications = useNotifications();
+  const { activeAddress } = useAccounts();
+
+  // Pick up transactions still in flight from before a reload
+  useEffect(() => {
+    if (!activeAddress) return;
+
+    const token = getAccount(activeAddress)?.sessionToken ?? null;
+    getTransactions()
+      .then((transactions) => {
+        transactions
+          .filter((transaction) => !['mined', 'failed', 'confirmed'].includes(transaction.status))
+          .forEach((transaction) => trackTransaction(transaction.description, transaction, token));
+      })
+      .catch((err) => console.error('Failed to load pending transactions:', err));
+  }, [activeAddress]);
+
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 max-w-[calc(100vw-2rem)] space-y-2">
+      {notifications.map((notification) => {
+        const { transaction } = notification;
+        const reached = transaction ? STEPS.indexOf(transaction.status) : -1;
+
+        return (
+          <div
+            key={notification.id}
+            role="status"
+            className={`bg-gray-900/95 backdrop-blur-md border rounded-lg shadow-xl p-3 ${TONE_STYLES[notification.tone]}`}
+          >
+            <div className="flex justify-between items-start gap-2">
+              <div className="flex items-center gap-2 font-medium text-sm">
+                {notification.tone === 'pending' && <div className="spinner"></div>}
+                {notification.title}
+              </div>
+              <button
+                onClick={() => dismiss(notification.id)}
+                aria-label="Dismiss"
+                className="text-gray-500 hover:text-gray-300 text-xs"
+              >
+                ✕
+              </button>
+            </div>
+            <div className="text-xs text-gray-400 mt-1">{notification.message}</div>
+
+            {/* Confirmed actions sent nothing on chain, so they have no steps to show */}
+            {transaction && transaction.status !== 'confirmed' && (
+              <>
+                {/* Lifecycle Steps */}
+                <div className="flex gap-1 mt-2">
+                  {STEPS.map((step, index) => (
+                    <div key={step} className="flex-1">
+                      <div
+                        className={`h-1 rounded-full ${
+                          transaction.status === 'failed'
+                            ? 'bg-red-700/60'
+                            : index <= reached
+                            ? 'bg-purple-500'
+                            : 'bg-gray-700'
+                        }`}
+                      ></div>
+                      <div className={`text-[10px] mt-0.5 ${index === reached ? 'text-gray-200' : 'text-gray-600'}`}>
+                        {STEP_LABELS[step]}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {transaction.txHash && (
+                  <div className="text-[10px] text-gray-500 font-mono mt-1 truncate" title={transaction.txHash}>
+                    {transaction.txHash}
+                    {transaction.blockNumber !== null && ` · block ${transaction.blockNumber}`}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,97 +1,66 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { getOrders } from '../lib/api';
-
-interface Order {
-  id: string;
-  type: 'buy' | 'sell';
-  price: number;
-  amount: number;
-  total: number;
-  timestamp: number;
-}
+import { useState } from 'react';
+import { useMarketStream } from '../lib/marketStream';
+import { groupLevels, stepDecimals, formatFixed } from '../lib/levels';
+import { useMarket } from '../lib/markets';
+import DepthChart from './DepthChart';
 
 interface OrderBookProps {
   address: string | null;
 }
 
 export default function OrderBook({ address }: OrderBookProps) {
-  const [buyOrders, setBuyOrders] = useState<Order[]>([]);
-  const [sellOrders, setSellOrders] = useState<Order[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-
-  useEffect(() => {
-    if (address) {
-      loadOrders();
-      const interval = setInterval(loadOrders, 10000);
-      return () => clearInterval(interval);
-    }
-  }, [address]);
-
-  const loadOrders = async () => {
-    if (!address) return;
-
-    setIsLoading(true);
-
-    try {
-      // Fetch orders from API
-      const response = await getOrders();
+  const market = useMarket();
+  const { connected, bids, asks } = useMarketStream(address, market.id);
+  const [mobileView, setMobileView] = useState<'book' | 'depth'>('book');
+  const [selectedGrouping, setGrouping] = useState<number | null>(null);
 
-      // Separate into buy and sell orders
-      const buyOrdersList: Order[] = [];
-      const sellOrdersList: Order[] = [];
+  // Steps finer than the market's price precision would group nothing
+  const groupings = market.groupings.filter((step) => stepDecimals(step) <= market.priceDecimals);
+  // A step chosen in another market falls back to this market's finest one
+  const grouping = selectedGrouping !== null && groupings.includes(selectedGrouping)
+    ? selectedGrouping
+    : groupings[0];
 
-      response.orders.forEach((order) => {
-        const orderData: Order = {
-          id: order.id,
-          type: order.isBuy ? 'buy' : 'sell',
-          price: parseFloat(order.price),
-          amount: parseFloat(order.amount),
-          total: parseFloat(order.amount) * parseFloat(order.price),
-          timestamp: Date.now(), // Placeholder - API would need to provide this
-        };
+  // Levels arrive sorted best price first: bids descending, asks ascending
+  const buyLevels = groupLevels(bids, grouping, true);
+  const sellLevels = groupLevels(asks, grouping, false);
 
-        if (order.isBuy) {
-          buyOrdersList.push(orderData);
-        } else {
-          sellOrdersList.push(orderData);
-        }
-      });
+  const priceDecimals = Math.min(market.priceDecimals, stepDecimals(grouping));
+  const formatPrice = (price: number) => formatFixed(price, priceDecimals);
+  const formatAmount = (amount: number) => formatFixed(amount, market.amountDecimals);
+  const formatTotal = (total: number) => formatFixed(total, market.priceDecimals);
 
-      // Sort orders: buy orders by price descending, sell orders by price ascending
-      buyOrdersList.sort((a, b) => b.price - a.price);
-      sellOrdersList.sort((a, b) => a.price - b.price);
+  // Spread uses the ungrouped best prices
+  const bestBid = bids.length > 0 ? parseFloat(bids[0].price) : null;
+  const bestAsk = asks.length > 0 ? parseFloat(asks[0].price) : null;
 
-      setBuyOrders(buyOrdersList);
-      setSellOrders(sellOrdersList);
-    } catch (err) {
-      console.error('Failed to load orders:', err);
-      setBuyOrders([]);
-      setSellOrders([]);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const spread = buyOrders.length > 0 && sellOrders.length > 0
-    ? (sellOrders[0].price - buyOrders[0].price).toFixed(2)
+  const spread = bestBid !== null && bestAsk !== null
+    ? formatFixed(bestAsk - bestBid, market.priceDecimals)
     : '—';
 
-  const spreadPercent = buyOrders.length > 0 && sellOrders.length > 0
-    ? (((sellOrders[0].price - buyOrders[0].price) / buyOrders[0].price) * 100).toFixed(2)
+  const spreadPercent = bestBid !== null && bestAsk !== null
+    ? (((bestAsk - bestBid) / bestBid) * 100).toFixed(2)
     : '—';
 
   return (
     <div className="bg-gray-900 border border-purple-700/30 rounded-xl p-6 shadow-xl">
       {/* Header */}
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold text-purple-300">Order Book</h2>
-        {isLoading && (
-          <div className="flex items-center gap-2 text-sm text-purple-400">
-            <div className="w-2 h-2 bg-purple-400 rounded-full animate-pulse"></div>
-            <span>Updating...</span>
-          </div>
+        <h2 className="text-2xl font-bold text-purple-300">{market.id} Order Book</h2>
+        {address && (
+          connected ? (
+            <div className="flex items-center gap-2 text-sm text-green-400">
+              <div className="w-2 h-2 bg-green-400 rounded-full"></div>
+              <span>Live</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-purple-400">
+              <div className="w-2 h-2 bg-purple-400 rounded-full animate-pulse"></div>
+              <span>Reconnecting...</span>
+            </div>
+          )
         )}
       </div>
 
@@ -102,6 +71,31 @@ export default function OrderBook({ address }: OrderBookProps) {
         </div>
       ) : (
         <div>
+          {/* Price Grouping */}
+          <div className="flex justify-end items-center gap-2 mb-4">
+            <span className="text-xs text-gray-500">Group</span>
+            <div className="flex gap-1 bg-gray-800 rounded-lg p-1">
+              {groupings.map((step) => (
+                <button
+                  key={step}
+                  onClick={() => setGrouping(step)}
+                  className={`px-2 py-1 rounded text-xs font-mono transition-colors ${
+                    grouping === step
+                      ? 'bg-purple-600 text-white'
+                      : 'text-gray-400 hover:text-gray-200'
+                  }`}
+                >
+                  {step}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Desktop: Depth Chart */}
+          <div className="hidden md:block mb-6">
+            <DepthChart bids={bids} asks={asks} />
+          </div>
+
           {/* Desktop: Side by Side Layout */}
           <div className="hidden md:grid md:grid-cols-2 gap-6">
             {/* Buy Orders (Bids) */}
@@ -119,23 +113,27 @@ export default function OrderBook({ address }: OrderBookProps) {
                       <th className="px-3 py-2 text-left">Price</th>
                       <th className="px-3 py-2 text-left">Amount</th>
                       <th className="px-3 py-2 text-left">Total</th>
+                      <th className="px-3 py-2 text-right">Orders</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {buyOrders.map((order, idx) => (
+                    {buyLevels.map((level, idx) => (
                       <tr
-                        key={order.id}
+                        key={level.price}
                         className="hover:bg-green-900/10 transition-colors border-t border-gray-800/50"
                         style={{ opacity: 1 - (idx * 0.1) }}
                       >
                         <td className="px-3 py-2 font-mono text-green-400 font-medium">
-                          ${order.price.toFixed(2)}
+                          ${formatPrice(level.price)}
                         </td>
                         <td className="px-3 py-2 font-mono text-gray-300 text-sm">
-                          {order.amount.toFixed(4)}
+                          {formatAmount(level.amount)}
                         </td>
                         <td className="px-3 py-2 font-mono text-gray-400 text-sm">
-                          ${order.total.toFixed(2)}
+                          ${formatTotal(level.total)}
+                        </td>
+                        <td className="px-3 py-2 font-mono text-gray-500 text-sm text-right">
+                          {level.count}
                         </td>
                       </tr>
                     ))}
@@ -159,23 +157,27 @@ export default function OrderBook({ address }: OrderBookProps) {
                       <th className="px-3 py-2 text-left">Price</th>
                       <th className="px-3 py-2 text-left">Amount</th>
                       <th className="px-3 py-2 text-left">Total</th>
+                      <th className="px-3 py-2 text-right">Orders</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {sellOrders.map((order, idx) => (
+                    {sellLevels.map((level, idx) => (
                       <tr
-                        key={order.id}
+                        key={level.price}
                         className="hover:bg-red-900/10 transition-colors border-t border-gray-800/50"
                         style={{ opacity: 1 - (idx * 0.1) }}
                       >
                         <td className="px-3 py-2 font-mono text-red-400 font-medium">
-                          ${order.price.toFixed(2)}
+                          ${formatPrice(level.price)}
                         </td>
                         <td className="px-3 py-2 font-mono text-gray-300 text-sm">
-                          {order.amount.toFixed(4)}
+                          {formatAmount(level.amount)}
                         </td>
                         <td className="px-3 py-2 font-mono text-gray-400 text-sm">
-                          ${order.total.toFixed(2)}
+                          ${formatTotal(level.total)}
+                        </td>
+                        <td className="px-3 py-2 font-mono text-gray-500 text-sm text-right">
+                          {level.count}
                         </td>
                       </tr>
                     ))}
@@ -185,8 +187,31 @@ export default function OrderBook({ address }: OrderBookProps) {
             </div>
           </div>
 
+          {/* Mobile: Book / Depth Toggle */}
+          <div className="md:hidden flex gap-1 bg-gray-800 rounded-lg p-1 mb-4">
+            {(['book', 'depth'] as const).map((view) => (
+              <button
+                key={view}
+                onClick={() => setMobileView(view)}
+                className={`flex-1 py-1.5 rounded text-xs font-medium transition-colors ${
+                  mobileView === view
+                    ? 'bg-purple-600 text-white'
+                    : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                {view === 'book' ? 'Book' : 'Depth'}
+              </button>
+            ))}
+          </div>
+
+          {mobileView === 'depth' && (
+            <div className="md:hidden">
+              <DepthChart bids={bids} asks={asks} height={200} />
+            </div>
+          )}
+
           {/* Mobile: Stacked Layout */}
-          <div className="md:hidden space-y-4">
+          <div className={`md:hidden space-y-4 ${mobileView === 'book' ? '' : 'hidden'}`}>
             {/* Sell Orders */}
             <div>
               <div className="text-sm font-semibold text-red-400 mb-2">SELL ORDERS</div>
@@ -196,16 +221,20 @@ export default function OrderBook({ address }: OrderBookProps) {
                     <tr className="text-xs text-gray-500">
                       <th className="px-2 py-2 text-left">Price</th>
                       <th className="px-2 py-2 text-left">Amount</th>
+                      <th className="px-2 py-2 text-right">Orders</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {sellOrders.slice(0, 5).map(order => (
-                      <tr key={order.id} className="border-t border-gray-800">
+                    {sellLevels.slice(0, 5).map((level) => (
+                      <tr key={level.price} className="border-t border-gray-800">
                         <td className="px-2 py-2 font-mono text-red-400 text-sm">
-                          ${order.price.toFixed(2)}
+                          ${formatPrice(level.price)}
                         </td>
                         <td className="px-2 py-2 font-mono text-gray-300 text-sm">
-                          {order.amount.toFixed(4)}
+                          {formatAmount(level.amount)}
+                        </td>
+                        <td className="px-2 py-2 font-mono text-gray-500 text-sm text-right">
+                          {level.count}
                         </td>
                       </tr>
                     ))}
@@ -223,16 +252,20 @@ export default function OrderBook({ address }: OrderBookProps) {
                     <tr className="text-xs text-gray-500">
                       <th className="px-2 py-2 text-left">Price</th>
                       <th className="px-2 py-2 text-left">Amount</th>
+                      <th className="px-2 py-2 text-right">Orders</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {buyOrders.slice(0, 5).map(order => (
-                      <tr key={order.id} className="border-t border-gray-800">
+                    {buyLevels.slice(0, 5).map((level) => (
+                      <tr key={level.price} className="border-t border-gray-800">
                         <td className="px-2 py-2 font-mono text-green-400 text-sm">
-                          ${order.price.toFixed(2)}
+                          ${formatPrice(level.price)}
                         </td>
                         <td className="px-2 py-2 font-mono text-gray-300 text-sm">
-                          {order.amount.toFixed(4)}
+                          {formatAmount(level.amount)}
+                        </td>
+                        <td className="px-2 py-2 font-mono text-gray-500 text-sm text-right">
+                          {level.count}
                         </td>
                       </tr>
                     ))}
@@ -1,93 +1,181 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { getBalance, getOrders } from '../lib/api';
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getBalance,
+  getFills,
+  getPnl,
+  cancelOrder,
+  cancelAllOrders,
+  getSessionToken,
+  type Balance,
+  type AccountFill,
+  type CostBasisMethod,
+  type PnlResponse,
+} from '../lib/api';
+import { escrowBalanceOf, refreshEscrow, useEscrow } from '../lib/escrow';
+import { useMarketStream } from '../lib/marketStream';
+import { useMarket } from '../lib/markets';
+import { trackTransaction } from '../lib/notifications';
+import EquityChart from './EquityChart';
 
-interface Asset {
-  symbol: string;
-  balance: number;
-  value: number;
-}
+type HistoryRange = 'day' | 'week' | 'month' | 'all';
 
-interface Transaction {
-  id: string;
-  type: 'buy' | 'sell';
-  amount: number;
-  price: number;
-  total: number;
-  timestamp: number;
-  status: 'completed' | 'pending' | 'failed';
-}
+const HOUR_MS = 60 * 60 * 1000;
+
+const HISTORY_RANGES: { value: HistoryRange; label: string; duration: number | null }[] = [
+  { value: 'day', label: '24H', duration: 24 * HOUR_MS },
+  { value: 'week', label: '7D', duration: 7 * 24 * HOUR_MS },
+  { value: 'month', label: '30D', duration: 30 * 24 * HOUR_MS },
+  { value: 'all', label: 'All', duration: null },
+];
+
+const FILLS_PAGE_SIZE = 25;
+
+const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+  { value: 'fifo', label: 'FIFO' },
+  { value: 'average', label: 'Avg cost' },
+];
 
 interface PortfolioProps {
   address: string | null;
 }
 
 export default function Portfolio({ address }: PortfolioProps) {
-  const [assets, setAssets] = useState<Asset[]>([]);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [balances, setBalances] = useState<Balance[]>([]);
+  const [balanceError, setBalanceError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'assets' | 'history'>('assets');
+  const [activeTab, setActiveTab] = useState<'assets' | 'orders' | 'history'>('assets');
+  const [cancellingIds, setCancellingIds] = useState<string[]>([]);
+  const [cancelError, setCancelError] = useState('');
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('week');
+  const [fills, setFills] = useState<AccountFill[]>([]);
+  const [fillsCursor, setFillsCursor] = useState<string | null>(null);
+  const [fillsError, setFillsError] = useState('');
+  const [isLoadingFills, setIsLoadingFills] = useState(false);
+  const [costBasis, setCostBasis] = useState<CostBasisMethod>('fifo');
+  const [pnl, setPnl] = useState<PnlResponse | null>(null);
+  const [pnlError, setPnlError] = useState('');
+  const market = useMarket();
+  const { orders, trades } = useMarketStream(address, market.id);
+  const escrow = useEscrow(address);
+  const latestTradeId = trades[0]?.id;
 
+  // Own orders arrive over the market stream; refresh balances whenever they change
   useEffect(() => {
-    if (address) {
-      loadPortfolio();
-      const interval = setInterval(loadPortfolio, 15000); // Refresh every 15 seconds
-      return () => clearInterval(interval);
-    }
-  }, [address]);
-
-  const loadPortfolio = async () => {
     if (!address) return;
+    refreshEscrow(address);
 
-    setIsLoading(true);
+    const loadBalance = async () => {
+      setIsLoading(true);
 
-    try {
-      // Fetch balance from API
-      const balanceResponse = await getBalance();
-      const balance = parseFloat(balanceResponse.balance);
-
-      // For this example, we're only showing the main token balance
-      const assets: Asset[] = [
-        {
-          symbol: 'TOKEN',
-          balance: balance,
-          value: balance * 5.0 // Assuming $5 per token as example
-        },
-      ];
-
-      // Fetch transaction history from API
-      let transactions: Transaction[] = [];
       try {
-        const ordersResponse = await getOrders();
-
-        // Convert orders to transactions format
-        transactions = ordersResponse.orders.map((order, index) => ({
-          id: order.id,
-          type: order.isBuy ? 'buy' : 'sell',
-          amount: parseFloat(order.amount),
-          price: parseFloat(order.price),
-          total: parseFloat(order.amount) * parseFloat(order.price),
-          timestamp: Date.now() - (index * 3600000), // Placeholder timestamp
-          status: order.status === 0 ? 'pending' : order.status === 1 ? 'completed' : 'failed',
-        }));
+        setBalances(await Promise.all([
+          getBalance(market.baseToken.address),
+          getBalance(market.quoteToken.address),
+        ]));
+        setBalanceError('');
       } catch (err) {
-        console.log('Note: Unable to fetch order history:', err);
+        console.error('Failed to load portfolio:', err);
+        setBalances([]);
+        setBalanceError('Failed to load balances: ' + (err as Error).message);
+      } finally {
+        setIsLoading(false);
       }
+    };
 
-      setAssets(assets);
-      setTransactions(transactions);
+    loadBalance();
+  }, [address, market, orders]);
+
+  const loadFills = useCallback(async (cursor?: string) => {
+    const duration = HISTORY_RANGES.find((range) => range.value === historyRange)!.duration;
+    setIsLoadingFills(true);
+
+    try {
+      const page = await getFills({
+        market: market.id,
+        from: duration === null ? undefined : Date.now() - duration,
+        limit: FILLS_PAGE_SIZE,
+        cursor,
+      });
+      setFills((previous) => (cursor ? [...previous, ...page.fills] : page.fills));
+      setFillsCursor(page.nextCursor);
+      setFillsError('');
     } catch (err) {
-      console.error('Failed to load portfolio:', err);
-      // Set empty arrays on error
-      setAssets([]);
-      setTransactions([]);
+      console.error('Failed to load fills:', err);
+      setFillsError('Failed to load trade history: ' + (err as Error).message);
     } finally {
-      setIsLoading(false);
+      setIsLoadingFills(false);
+    }
+  }, [market.id, historyRange]);
+
+  // Reload the first page of fills when the range changes or a new trade prints
+  useEffect(() => {
+    if (!address || activeTab !== 'history') return;
+    loadFills();
+  }, [address, activeTab, loadFills, latestTradeId]);
+
+  // PnL spans every market; recompute it when the method changes or a new trade prints
+  useEffect(() => {
+    if (!address || activeTab !== 'assets') return;
+
+    getPnl(costBasis)
+      .then((result) => {
+        setPnl(result);
+        setPnlError('');
+      })
+      .catch((err) => {
+        console.error('Failed to load PnL:', err);
+        setPnlError('Failed to load PnL: ' + (err as Error).message);
+      });
+  }, [address, activeTab, costBasis, latestTradeId]);
+
+  const openOrders = orders.filter((order) => order.status === 0);
+
+  // Cancelled orders drop out of openOrders when the stream reports their new status
+  const handleCancel = async (orderIds: string[]) => {
+    setCancelError('');
+    setCancellingIds((ids) => [...ids, ...orderIds]);
+
+    try {
+      const { transaction } = orderIds.length === 1
+        ? await cancelOrder(orderIds[0])
+        : await cancelAllOrders(market.id);
+      trackTransaction('Cancel', transaction, getSessionToken());
+    } catch (err) {
+      setCancelError('Failed to cancel order: ' + (err as Error).message);
+      console.error('Order cancellation error:', err);
+    } finally {
+      setCancellingIds((ids) => ids.filter((id) => !orderIds.includes(id)));
     }
   };
 
-  const totalValue = assets.reduce((sum, asset) => sum + asset.value, 0);
+  // Each asset is held in the wallet and in escrow, where open orders lock part of it
+  const holdingOf = (balance: Balance) =>
+    parseFloat(balance.balance) + parseFloat(escrowBalanceOf(escrow, balance.symbol)?.escrowed ?? '0');
+
+  // Holdings are valued in the quote token; the base token at the last traded price, when there is one
+  const lastPrice = trades.length > 0 ? parseFloat(trades[0].price) : null;
+  const valueOf = (balance: Balance) => {
+    if (balance.tokenAddress === market.quoteToken.address) return holdingOf(balance);
+    return lastPrice === null ? null : holdingOf(balance) * lastPrice;
+  };
+
+  const formatAmount = (amount: string) =>
+    parseFloat(amount).toLocaleString(undefined, { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+
+  const formatValue = (value: number) =>
+    value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  const formatPnl = (amount: string) => {
+    const value = parseFloat(amount);
+    return `${value < 0 ? '-' : value > 0 ? '+' : ''}$${formatValue(Math.abs(value))}`;
+  };
+
+  const pnlColor = (amount: string) => {
+    const value = parseFloat(amount);
+    return value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-gray-300';
+  };
 
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -113,7 +201,7 @@ export default function Portfolio({ address }: PortfolioProps) {
           <div className="flex gap-2 mb-6 border-b border-gray-800">
             <button
               onClick={() => setActiveTab('assets')}
-              className={`px-4 py-2 font-medium transition-colors ${
+              className={`px-3 py-2 text-sm font-medium transition-colors ${
                 activeTab === 'assets'
                   ? 'text-purple-300 border-b-2 border-purple-500'
                   : 'text-gray-500 hover:text-gray-300'
@@ -121,9 +209,19 @@ export default function Portfolio({ address }: PortfolioProps) {
             >
               Assets
             </button>
+            <button
+              onClick={() => setActiveTab('orders')}
+              className={`px-3 py-2 text-sm font-medium transition-colors ${
+                activeTab === 'orders'
+                  ? 'text-purple-300 border-b-2 border-purple-500'
+                  : 'text-gray-500 hover:text-gray-300'
+              }`}
+            >
+              Open Orders{openOrders.length > 0 && ` (${openOrders.length})`}
+            </button>
             <button
               onClick={() => setActiveTab('history')}
-              className={`px-4 py-2 font-medium transition-colors ${
+              className={`px-3 py-2 text-sm font-medium transition-colors ${
                 activeTab === 'history'
                   ? 'text-purple-300 border-b-2 border-purple-500'
                   : 'text-gray-500 hover:text-gray-300'
@@ -136,95 +234,330 @@ export default function Portfolio({ address }: PortfolioProps) {
           {/* Assets Tab */}
           {activeTab === 'assets' && (
             <div className="space-y-4">
-              {/* Total Value */}
-              <div className="bg-purple-900/20 border border-purple-700/30 rounded-lg p-4">
-                <div className="text-sm text-gray-400 mb-1">Total Portfolio Value</div>
-                <div className="text-2xl font-bold text-purple-300 font-mono">
-                  ${totalValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+              {/* Profit and Loss */}
+              <div className="bg-purple-900/20 border border-purple-700/30 rounded-lg p-4 space-y-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <div className="text-sm text-gray-400 mb-1">Net PnL</div>
+                    <div className={`text-2xl font-bold font-mono ${pnl ? pnlColor(pnl.totals.netPnl) : 'text-purple-300'}`}>
+                      {pnl ? formatPnl(pnl.totals.netPnl) : '—'}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    {COST_BASIS_METHODS.map((method) => (
+                      <button
+                        key={method.value}
+                        onClick={() => setCostBasis(method.value)}
+                        className={`px-2 py-1 rounded text-xs transition-colors ${
+                          costBasis === method.value
+                            ? 'bg-purple-600 text-white'
+                            : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+                        }`}
+                      >
+                        {method.label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
+                {pnl && (
+                  <>
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                      <div>
+                        <div className="text-gray-500 text-xs">Realized</div>
+                        <div className={`font-mono ${pnlColor(pnl.totals.realizedPnl)}`}>{formatPnl(pnl.totals.realizedPnl)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 text-xs">Unrealized</div>
+                        <div className={`font-mono ${pnlColor(pnl.totals.unrealizedPnl)}`}>{formatPnl(pnl.totals.unrealizedPnl)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 text-xs">Fees paid</div>
+                        <div className="text-gray-300 font-mono">${formatValue(parseFloat(pnl.totals.fees))}</div>
+                      </div>
+                    </div>
+                    <EquityChart points={pnl.equity} />
+                  </>
+                )}
               </div>
 
+              {(balanceError || escrow.error || pnlError) && (
+                <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3">
+                  {balanceError || escrow.error || pnlError}
+                </div>
+              )}
+
+              {/* PnL by Asset */}
+              {pnl && pnl.assets.length > 0 && (
+                <div className="space-y-2">
+                  {pnl.assets.map((asset) => (
+                    <div
+                      key={asset.market}
+                      className="bg-gray-800 border border-gray-700 rounded-lg p-4 hover:border-purple-700/50 transition-colors"
+                    >
+                      <div className="flex justify-between items-center mb-3">
+                        <div>
+                          <div className="font-semibold text-white">{asset.token}</div>
+                          <div className="text-sm text-gray-400 font-mono">
+                            {formatAmount(asset.position)} @ {asset.averageCost === null ? '—' : `$${asset.averageCost}`}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <div className={`font-mono ${pnlColor(asset.netPnl)}`}>{formatPnl(asset.netPnl)}</div>
+                          <div className="text-xs text-gray-500">Mark ${asset.markPrice} · {asset.trades} trades</div>
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2 text-sm">
+                        <div>
+                          <div className="text-gray-500 text-xs">Realized</div>
+                          <div className={`font-mono ${pnlColor(asset.realizedPnl)}`}>{formatPnl(asset.realizedPnl)}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500 text-xs">Unrealized</div>
+                          <div className={`font-mono ${pnlColor(asset.unrealizedPnl)}`}>{formatPnl(asset.unrealizedPnl)}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500 text-xs">Fees</div>
+                          <div className="text-gray-300 font-mono">${formatValue(parseFloat(asset.fees))}</div>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Assets List */}
               <div className="space-y-2">
-                {assets.map((asset) => (
+                {balances.map((asset) => {
+                  const escrowed = escrowBalanceOf(escrow, asset.symbol);
+                  return (
                   <div
-                    key={asset.symbol}
+                    key={asset.tokenAddress}
                     className="bg-gray-800 border border-gray-700 rounded-lg p-4 hover:border-purple-700/50 transition-colors"
                   >
-                    <div className="flex justify-between items-center">
+                    <div className="flex justify-between items-center mb-3">
                       <div>
                         <div className="font-semibold text-white">{asset.symbol}</div>
                         <div className="text-sm text-gray-400 font-mono">
-                          {asset.balance.toLocaleString(undefined, { minimumFractionDigits: 4, maximumFractionDigits: 4 })}
+                          {formatAmount(String(holdingOf(asset)))}
                         </div>
                       </div>
                       <div className="text-right">
                         <div className="text-purple-300 font-mono">
-                          ${asset.value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                          {valueOf(asset) === null ? '—' : `$${formatValue(valueOf(asset)!)}`}
+                        </div>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 text-sm">
+                      <div>
+                        <div className="text-gray-500 text-xs">Wallet</div>
+                        <div className="text-white font-mono">{formatAmount(asset.balance)}</div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 text-xs">Escrow</div>
+                        <div className="text-purple-300 font-mono">
+                          {escrowed ? formatAmount(escrowed.available) : '—'}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-gray-500 text-xs">In orders</div>
+                        <div className="text-yellow-400 font-mono">
+                          {escrowed ? formatAmount(escrowed.locked) : '—'}
                         </div>
                       </div>
                     </div>
+                    <div className="text-xs text-gray-500 mt-2">
+                      Wallet: {formatAmount(asset.privateBalance)} private · {formatAmount(asset.publicBalance)} public
+                    </div>
                   </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           )}
 
-          {/* History Tab */}
-          {activeTab === 'history' && (
+          {/* Open Orders Tab */}
+          {activeTab === 'orders' && (
             <div className="space-y-2">
-              {transactions.length > 0 ? (
-                transactions.map((tx) => (
-                  <div
-                    key={tx.id}
-                    className="bg-gray-800 border border-gray-700 rounded-lg p-4 hover:border-purple-700/50 transition-colors"
-                  >
-                    <div className="flex justify-between items-start mb-2">
-                      <div className="flex items-center gap-2">
+              {cancelError && (
+                <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3">
+                  {cancelError}
+                </div>
+              )}
+
+              {openOrders.length > 0 ? (
+                <>
+                  <div className="flex justify-end">
+                    <button
+                      onClick={() => handleCancel(openOrders.map((order) => order.id))}
+                      disabled={cancellingIds.length > 0}
+                      className="text-xs text-red-400 hover:text-red-300 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                      Cancel All
+                    </button>
+                  </div>
+
+                  {openOrders.map((order) => (
+                    <div
+                      key={order.id}
+                      className="bg-gray-800 border border-gray-700 rounded-lg p-4 hover:border-purple-700/50 transition-colors"
+                    >
+                      <div className="flex justify-between items-start mb-2">
                         <span
                           className={`px-2 py-1 rounded text-xs font-semibold ${
-                            tx.type === 'buy'
+                            order.isBuy
                               ? 'bg-green-900/30 text-green-400'
                               : 'bg-red-900/30 text-red-400'
                           }`}
                         >
-                          {tx.type.toUpperCase()}
+                          {order.isBuy ? 'BUY' : 'SELL'}
                         </span>
-                        <span
-                          className={`px-2 py-1 rounded text-xs ${
-                            tx.status === 'completed'
-                              ? 'bg-blue-900/30 text-blue-400'
-                              : tx.status === 'pending'
-                              ? 'bg-yellow-900/30 text-yellow-400'
-                              : 'bg-red-900/30 text-red-400'
-                          }`}
+                        <button
+                          onClick={() => handleCancel([order.id])}
+                          disabled={cancellingIds.includes(order.id)}
+                          className="px-2 py-1 rounded text-xs bg-red-900/30 text-red-400 hover:bg-red-900/50 disabled:text-gray-600 disabled:cursor-not-allowed transition-colors"
                         >
-                          {tx.status}
-                        </span>
+                          {cancellingIds.includes(order.id) ? 'Cancelling...' : 'Cancel'}
+                        </button>
                       </div>
-                      <div className="text-xs text-gray-500">
-                        {formatDate(tx.timestamp)}
+                      <div className="grid grid-cols-3 gap-2 text-sm">
+                        <div>
+                          <div className="text-gray-500 text-xs">Price</div>
+                          <div className="text-white font-mono">${order.price}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500 text-xs">Amount</div>
+                          <div className="text-white font-mono">{order.amount}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500 text-xs">Filled</div>
+                          <div className="text-purple-300 font-mono">{order.filled}</div>
+                        </div>
                       </div>
                     </div>
-                    <div className="grid grid-cols-3 gap-2 text-sm">
-                      <div>
-                        <div className="text-gray-500 text-xs">Amount</div>
-                        <div className="text-white font-mono">{tx.amount}</div>
-                      </div>
-                      <div>
-                        <div className="text-gray-500 text-xs">Price</div>
-                        <div className="text-white font-mono">${tx.price}</div>
+                  ))}
+                </>
+              ) : (
+                <div className="text-center text-gray-600 py-8">
+                  No open orders
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* History Tab */}
+          {activeTab === 'history' && (
+            <div className="space-y-2">
+              <div className="flex gap-1 justify-end">
+                {HISTORY_RANGES.map((range) => (
+                  <button
+                    key={range.value}
+                    onClick={() => setHistoryRange(range.value)}
+                    className={`px-2 py-1 rounded text-xs transition-colors ${
+                      historyRange === range.value
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-gray-800 text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {range.label}
+                  </button>
+                ))}
+              </div>
+
+              {fillsError && (
+                <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3">
+                  {fillsError}
+                </div>
+              )}
+
+              {fills.length > 0 ? (
+                <>
+                  {fills.map((fill) => (
+                    <div
+                      key={fill.id}
+                      className="bg-gray-800 border border-gray-700 rounded-lg p-4 hover:border-purple-700/50 transition-colors"
+                    >
+                      <div className="flex justify-between items-start mb-2">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className={`px-2 py-1 rounded text-xs font-semibold ${
+                              fill.side === 'buy'
+                                ? 'bg-green-900/30 text-green-400'
+                                : 'bg-red-900/30 text-red-400'
+                            }`}
+                          >
+                            {fill.side.toUpperCase()}
+                          </span>
+                          <span
+                            className={`px-2 py-1 rounded text-xs ${
+                              fill.role === 'maker'
+                                ? 'bg-blue-900/30 text-blue-400'
+                                : 'bg-yellow-900/30 text-yellow-400'
+                            }`}
+                          >
+                            {fill.role}
+                          </span>
+                          {fill.settlement === 'pending' && (
+                            <span className="px-2 py-1 rounded text-xs bg-purple-900/30 text-purple-400">
+                              Settling
+                            </span>
+                          )}
+                          {fill.settlement === 'failed' && (
+                            <span
+                              title={fill.settlementError ?? undefined}
+                              className="px-2 py-1 rounded text-xs bg-red-900/30 text-red-400"
+                            >
+                              Settlement failed, reverted
+                            </span>
+                          )}
+                          {fill.settlement === 'settled' && fill.settlementTxHash && (
+                            <span
+                              title={fill.settlementTxHash}
+                              className="px-2 py-1 rounded text-xs bg-green-900/30 text-green-400"
+                            >
+                              Settled
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {formatDate(fill.timestamp)}
+                        </div>
                       </div>
-                      <div>
-                        <div className="text-gray-500 text-xs">Total</div>
-                        <div className="text-purple-300 font-mono">${tx.total}</div>
+                      <div className="grid grid-cols-4 gap-2 text-sm">
+                        <div>
+                          <div className="text-gray-500 text-xs">Amount</div>
+                          <div className="text-white font-mono">{fill.amount}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500 text-xs">Price</div>
+                          <div className="text-white font-mono">${fill.price}</div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500 text-xs">Total</div>
+                          <div className="text-purple-300 font-mono">
+                            ${formatValue(parseFloat(fill.amount) * parseFloat(fill.price))}
+                          </div>
+                        </div>
+                        <div>
+                          <div className="text-gray-500 text-xs">Fee</div>
+                          <div className="text-gray-300 font-mono">${fill.fee}</div>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))
+                  ))}
+
+                  {fillsCursor && (
+                    <button
+                      onClick={() => loadFills(fillsCursor)}
+                      disabled={isLoadingFills}
+                      className="w-full py-2 text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-600 transition-colors"
+                    >
+                      {isLoadingFills ? 'Loading...' : 'Load more'}
+                    </button>
+                  )}
+                </>
               ) : (
                 <div className="text-center text-gray-600 py-8">
-                  No transaction history
+                  {isLoadingFills ? 'Loading...' : 'No trades in this period'}
                 </div>
               )}
             </div>
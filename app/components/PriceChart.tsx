@@ -0,0 +1,252 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { getCandles, type Candle, type CandleInterval } from '../lib/api';
+import { useMarketStream } from '../lib/marketStream';
+import { formatFixed } from '../lib/levels';
+import { useMarket } from '../lib/markets';
+import { CANDLE_INTERVALS } from '../../shared/contract.mjs';
+
+interface PriceChartProps {
+  address: string | null;
+}
+
+const WIDTH = 600;
+const PRICE_HEIGHT = 200;
+const VOLUME_HEIGHT = 60;
+const GAP = 8;
+const HEIGHT = PRICE_HEIGHT + GAP + VOLUME_HEIGHT;
+
+// Candles fetched per interval, and how many of them fit on screen
+const CANDLE_LIMIT = 500;
+const DEFAULT_VISIBLE = 60;
+const MIN_VISIBLE = 10;
+const ZOOM_STEP = 1.25;
+
+function zoomed(count: number, factor: number): number {
+  return Math.min(CANDLE_LIMIT, Math.max(MIN_VISIBLE, Math.round(count * factor)));
+}
+
+function formatTime(time: number, interval: CandleInterval): string {
+  const date = new Date(time);
+  if (interval === '1d') return date.toLocaleDateString();
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function PriceChart({ address }: PriceChartProps) {
+  const [interval, setCandleInterval] = useState<CandleInterval>('5m');
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [error, setError] = useState('');
+  const [visible, setVisible] = useState(DEFAULT_VISIBLE);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const market = useMarket();
+  const { trades } = useMarketStream(address, market.id);
+  const latestTradeId = trades[0]?.id;
+
+  // Reload when the market or interval changes and whenever a trade moves the current candle
+  useEffect(() => {
+    let cancelled = false;
+
+    getCandles(market.id, interval, CANDLE_LIMIT)
+      .then((response) => {
+        if (cancelled) return;
+        setCandles(response.candles);
+        setError('');
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('Failed to load candles:', err);
+        setError('Failed to load price history: ' + (err as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [market.id, interval, latestTradeId]);
+
+  const zoom = (factor: number) => setVisible((count) => zoomed(count, factor));
+
+  // React registers wheel listeners as passive, so zooming needs a native one to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setVisible((count) => zoomed(count, e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const shown = candles.slice(-visible);
+  const slot = WIDTH / visible;
+  // Right-align so the newest candle sits at the edge even when history is short
+  const offset = visible - shown.length;
+
+  const highs = shown.map((candle) => parseFloat(candle.high));
+  const lows = shown.map((candle) => parseFloat(candle.low));
+  const maxPrice = Math.max(...highs);
+  const minPrice = Math.min(...lows);
+  const pricePadding = (maxPrice - minPrice) * 0.1 || maxPrice * 0.01 || 1;
+  const top = maxPrice + pricePadding;
+  const bottom = minPrice - pricePadding;
+  const maxVolume = Math.max(...shown.map((candle) => parseFloat(candle.volume)), 0);
+
+  const y = (price: number) => ((top - price) / (top - bottom)) * PRICE_HEIGHT;
+  const volumeY = (volume: number) => HEIGHT - (maxVolume > 0 ? (volume / maxVolume) * VOLUME_HEIGHT : 0);
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const index = Math.floor(((e.clientX - rect.left) / rect.width) * visible) - offset;
+    setHoverIndex(index >= 0 && index < shown.length ? index : null);
+  };
+
+  const hovered = hoverIndex !== null ? shown[hoverIndex] : shown[shown.length - 1];
+
+  const formatPrice = (price: number | string) =>
+    formatFixed(typeof price === 'string' ? parseFloat(price) : price, market.priceDecimals);
+
+  return (
+    <div className="bg-gray-900 border border-purple-700/30 rounded-xl p-6 shadow-xl">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-4 gap-4 flex-wrap">
+        <h2 className="text-2xl font-bold text-purple-300">{market.id} Price</h2>
+        <div className="flex items-center gap-2">
+          <div className="flex gap-1 bg-gray-800 rounded-lg p-1">
+            {CANDLE_INTERVALS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setCandleInterval(option)}
+                className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                  interval === option
+                    ? 'bg-purple-600 text-white'
+                    : 'text-gray-400 hover:text-gray-200'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1 bg-gray-800 rounded-lg p-1">
+            <button
+              onClick={() => zoom(1 / ZOOM_STEP)}
+              disabled={visible <= MIN_VISIBLE}
+              className="px-2 py-1 rounded text-xs text-gray-400 hover:text-gray-200 disabled:text-gray-600"
+              aria-label="Zoom in"
+            >
+              +
+            </button>
+            <button
+              onClick={() => zoom(ZOOM_STEP)}
+              disabled={visible >= CANDLE_LIMIT}
+              className="px-2 py-1 rounded text-xs text-gray-400 hover:text-gray-200 disabled:text-gray-600"
+              aria-label="Zoom out"
+            >
+              −
+            </button>
+            <button
+              onClick={() => setVisible(DEFAULT_VISIBLE)}
+              className="px-2 py-1 rounded text-xs text-gray-400 hover:text-gray-200"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3 mb-4">
+          {error}
+        </div>
+      )}
+
+      {/* OHLCV Readout */}
+      <div className="flex gap-4 text-xs font-mono text-gray-400 mb-2 h-4">
+        {hovered && (
+          <>
+            <span>{formatTime(hovered.time, interval)}</span>
+            <span>O <span className="text-gray-200">{formatPrice(hovered.open)}</span></span>
+            <span>H <span className="text-gray-200">{formatPrice(hovered.high)}</span></span>
+            <span>L <span className="text-gray-200">{formatPrice(hovered.low)}</span></span>
+            <span>C <span className="text-gray-200">{formatPrice(hovered.close)}</span></span>
+            <span>V <span className="text-gray-200">{formatFixed(parseFloat(hovered.volume), market.amountDecimals)}</span></span>
+          </>
+        )}
+      </div>
+
+      <div className="relative">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full bg-gray-800/30 rounded-lg border border-gray-700/50 cursor-crosshair"
+          style={{ height: HEIGHT }}
+          onMouseMove={handleMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          <line x1={0} x2={WIDTH} y1={PRICE_HEIGHT + GAP / 2} y2={PRICE_HEIGHT + GAP / 2} className="stroke-gray-700" vectorEffect="non-scaling-stroke" />
+
+          {shown.map((candle, index) => {
+            const open = parseFloat(candle.open);
+            const close = parseFloat(candle.close);
+            const rising = close >= open;
+            const center = (index + offset + 0.5) * slot;
+            const bodyTop = y(Math.max(open, close));
+            const bodyHeight = Math.max(y(Math.min(open, close)) - bodyTop, 1);
+
+            return (
+              <g key={candle.time} opacity={hoverIndex === null || hoverIndex === index ? 1 : 0.6}>
+                <line
+                  x1={center}
+                  x2={center}
+                  y1={y(parseFloat(candle.high))}
+                  y2={y(parseFloat(candle.low))}
+                  className={rising ? 'stroke-green-400' : 'stroke-red-400'}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <rect
+                  x={center - slot * 0.35}
+                  width={slot * 0.7}
+                  y={bodyTop}
+                  height={bodyHeight}
+                  className={rising ? 'fill-green-500' : 'fill-red-500'}
+                />
+                <rect
+                  x={center - slot * 0.35}
+                  width={slot * 0.7}
+                  y={volumeY(parseFloat(candle.volume))}
+                  height={HEIGHT - volumeY(parseFloat(candle.volume))}
+                  className={rising ? 'fill-green-500/40' : 'fill-red-500/40'}
+                />
+              </g>
+            );
+          })}
+        </svg>
+
+        {shown.length === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center text-gray-600 text-sm">
+            No trades yet
+          </div>
+        ) : (
+          <>
+            <div className="absolute right-2 top-1 text-[10px] text-gray-500 font-mono">{formatPrice(maxPrice)}</div>
+            <div className="absolute right-2 text-[10px] text-gray-500 font-mono" style={{ top: PRICE_HEIGHT - 14 }}>
+              {formatPrice(minPrice)}
+            </div>
+          </>
+        )}
+      </div>
+
+      {shown.length > 0 && (
+        <div className="flex justify-between text-[10px] text-gray-500 font-mono mt-1">
+          <span>{formatTime(shown[0].time, interval)}</span>
+          <span>{formatTime(shown[shown.length - 1].time, interval)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  getBalance,
+  getSessionToken,
+  transferTokens,
+  type Balance,
+  type TransactionStatus,
+  type TransferVisibility,
+} from '../lib/api';
+import { trackTransaction } from '../lib/notifications';
+import { parse, Address, Decimal, type Schema } from '../../shared/contract.mjs';
+
+interface SendPanelProps {
+  address: string | null;
+}
+
+type SendStatus =
+  | { stage: 'idle' }
+  | { stage: 'sending'; startedAt: number; step: TransactionStatus | null }
+  | { stage: 'mined'; txHash: string; blockNumber: number; message: string }
+  | { stage: 'failed'; message: string };
+
+function isValid(schema: Schema<unknown>, value: string): boolean {
+  try {
+    parse(schema, value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export default function SendPanel({ address }: SendPanelProps) {
+  const [visibility, setVisibility] = useState<TransferVisibility>('private');
+  const [recipient, setRecipient] = useState('');
+  const [amount, setAmount] = useState('');
+  const [balance, setBalance] = useState<Balance | null>(null);
+  const [status, setStatus] = useState<SendStatus>({ stage: 'idle' });
+  const [elapsed, setElapsed] = useState(0);
+
+  // Reload the balance for a new account and after each mined transfer
+  useEffect(() => {
+    if (!address) return;
+
+    getBalance()
+      .then(setBalance)
+      .catch((err) => {
+        console.error('Failed to load balance:', err);
+        setBalance(null);
+      });
+  }, [address, status.stage]);
+
+  // Count up while the transaction is being proven and mined
+  useEffect(() => {
+    if (status.stage !== 'sending') return;
+
+    const { startedAt } = status;
+    const interval = setInterval(() => setElapsed(Math.floor((Date.now() - startedAt) / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  const available = balance
+    ? visibility === 'private' ? balance.privateBalance : balance.publicBalance
+    : null;
+
+  const recipientError = recipient && !isValid(Address, recipient)
+    ? 'Enter an Aztec address: 0x followed by 64 hex characters'
+    : recipient.toLowerCase() === address?.toLowerCase()
+    ? 'Recipient is the connected account'
+    : '';
+
+  const amountError = amount && !isValid(Decimal, amount)
+    ? 'Enter a positive amount'
+    : amount && available !== null && parseFloat(amount) > parseFloat(available)
+    ? `Exceeds your ${visibility} balance of ${available}`
+    : '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!address || !recipient || !amount || recipientError || amountError) return;
+
+    const startedAt = Date.now();
+    setElapsed(0);
+    setStatus({ stage: 'sending', startedAt, step: null });
+
+    try {
+      const { transaction } = await transferTokens(recipient, amount, visibility);
+      setStatus({ stage: 'sending', startedAt, step: transaction.status });
+
+      // The notification tray keeps following the transaction if this panel unmounts
+      const settled = await trackTransaction('Transfer', transaction, getSessionToken(), (progress) =>
+        setStatus({ stage: 'sending', startedAt, step: progress.status })
+      );
+      if (settled.status !== 'mined') {
+        setStatus({ stage: 'failed', message: 'Transfer failed: ' + (settled.error ?? 'lost track of the transaction') });
+        return;
+      }
+      setStatus({
+        stage: 'mined',
+        txHash: settled.txHash!,
+        blockNumber: settled.blockNumber!,
+        message: settled.description,
+      });
+      setRecipient('');
+      setAmount('');
+    } catch (err) {
+      setStatus({ stage: 'failed', message: 'Transfer failed: ' + (err as Error).message });
+      console.error('Transfer error:', err);
+    }
+  };
+
+  const isSending = status.stage === 'sending';
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-purple-700/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500';
+
+  return (
+    <div className="bg-gray-900 border border-purple-700/30 rounded-xl p-6 shadow-xl">
+      <h2 className="text-2xl font-bold text-purple-300 mb-6">Send</h2>
+
+      {/* Visibility Tabs */}
+      <div className="flex gap-2 mb-6">
+        {(['private', 'public'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setVisibility(option)}
+            disabled={isSending}
+            className={`flex-1 py-2 px-4 rounded-lg font-medium transition-colors ${
+              visibility === option
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            {option.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Recipient Input */}
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Recipient
+          </label>
+          <input
+            type="text"
+            value={recipient}
+            onChange={(e) => setRecipient(e.target.value.trim())}
+            placeholder="0x..."
+            disabled={isSending}
+            className={`${inputClassName} font-mono text-sm`}
+          />
+          {recipientError && (
+            <div className="text-xs text-red-400 mt-1">{recipientError}</div>
+          )}
+        </div>
+
+        {/* Amount Input */}
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-300">
+              Amount
+            </label>
+            {available !== null && balance && (
+              <button
+                type="button"
+                onClick={() => setAmount(available)}
+                disabled={isSending}
+                className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
+              >
+                Available: {available} {balance.symbol}
+              </button>
+            )}
+          </div>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value.trim())}
+            placeholder="0.00"
+            disabled={isSending}
+            className={inputClassName}
+          />
+          {amountError && (
+            <div className="text-xs text-red-400 mt-1">{amountError}</div>
+          )}
+        </div>
+
+        {/* Progress / Status */}
+        {status.stage === 'sending' && (
+          <div className="flex items-center gap-2 text-purple-400 text-sm bg-purple-900/20 border border-purple-700/30 rounded-lg p-3">
+            <div className="spinner"></div>
+            {status.step === null
+              ? 'Submitting transfer...'
+              : status.step === 'queued'
+              ? 'Waiting for a free prover...'
+              : status.step === 'simulating'
+              ? 'Simulating transaction...'
+              : status.step === 'proving'
+              ? 'Proving transaction...'
+              : 'Waiting for the transaction to be mined...'}{' '}
+            {elapsed}s
+          </div>
+        )}
+
+        {status.stage === 'mined' && (
+          <div className="text-green-400 text-sm bg-green-900/20 border border-green-700/30 rounded-lg p-3">
+            <div>{status.message}. Mined in block {status.blockNumber}.</div>
+            <div className="text-xs text-gray-400 font-mono break-all mt-1">{status.txHash}</div>
+          </div>
+        )}
+
+        {status.stage === 'failed' && (
+          <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3">
+            {status.message}
+          </div>
+        )}
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={!address || isSending || !recipient || !amount || !!recipientError || !!amountError}
+          className="w-full bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 disabled:from-gray-700 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-all shadow-lg"
+        >
+          {isSending
+            ? 'Sending...'
+            : !address
+            ? 'Connect Wallet First'
+            : `Send ${visibility === 'private' ? 'Privately' : 'Publicly'}`}
+        </button>
+      </form>
+
+      {/* Privacy Notice */}
+      <div className="mt-4 text-xs text-purple-400 bg-purple-900/20 border border-purple-700/30 rounded-lg p-3">
+        {visibility === 'private'
+          ? 'Private transfers hide the sender, recipient and amount'
+          : 'Public transfers are visible to everyone on Aztec Network'}
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,82 @@
 'use client';
 
-import { useState } from 'react';
-import { createOrder } from '../lib/api';
+import { useState, useEffect } from 'react';
+import { createOrder, getSessionToken, APIError, type OrderType } from '../lib/api';
+import { escrowBalanceOf, refreshEscrow, useEscrow } from '../lib/escrow';
+import { useMarketStream } from '../lib/marketStream';
+import { useMarket } from '../lib/markets';
+import { trackTransaction } from '../lib/notifications';
+import { estimateFill, worstAcceptablePrice } from '../lib/priceImpact';
 import { TRADING_CONFIG } from '../config';
 
 interface TradePanelProps {
   address: string | null;
 }
 
-type OrderType = 'buy' | 'sell';
+type OrderSide = 'buy' | 'sell';
+
+const ORDER_TYPE_OPTIONS: { value: OrderType; label: string; description: string }[] = [
+  { value: 'limit', label: 'Limit', description: 'Rests on the book until filled or cancelled' },
+  { value: 'market', label: 'Market', description: 'Fills immediately at the best available prices' },
+  { value: 'ioc', label: 'IOC', description: 'Immediate-or-cancel: fills what it can now, cancels the rest' },
+  { value: 'fok', label: 'FOK', description: 'Fill-or-kill: fills in full immediately or not at all' },
+  { value: 'post_only', label: 'Post', description: 'Post-only: rejected if it would match, so it always adds liquidity' },
+];
+
+const SLIPPAGE_PRESETS = [0.1, 0.5, 1];
+
+// Impact above this is highlighted as a warning
+const HIGH_IMPACT_PERCENT = 1;
 
 export default function TradePanel({ address }: TradePanelProps) {
-  const [orderType, setOrderType] = useState<OrderType>('buy');
+  const [side, setSide] = useState<OrderSide>('buy');
+  const [orderType, setOrderType] = useState<OrderType>('limit');
   const [amount, setAmount] = useState('');
   const [price, setPrice] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState('');
+  const [slippage, setSlippage] = useState(String(TRADING_CONFIG.defaultSlippage));
+  const market = useMarket();
+  const { bids, asks, trades } = useMarketStream(address, market.id);
+  const escrow = useEscrow(address);
+  const latestTradeId = trades[0]?.id;
+
+  // Fills move escrowed funds, so reload them whenever a trade prints
+  useEffect(() => {
+    if (!address) return;
+    refreshEscrow(address);
+  }, [address, latestTradeId]);
+
+  const isMarket = orderType === 'market';
+  const selectedType = ORDER_TYPE_OPTIONS.find((option) => option.value === orderType)!;
+
+  // Preview the immediate fill for any order that would take liquidity
+  const amountNum = parseFloat(amount);
+  const priceNum = parseFloat(price);
+  const opposite = side === 'buy' ? asks : bids;
+  const bestOpposite = opposite.length > 0 ? parseFloat(opposite[0].price) : null;
+  const crossesBook = bestOpposite !== null && (isMarket || (
+    priceNum > 0 && (side === 'buy' ? priceNum >= bestOpposite : priceNum <= bestOpposite)
+  ));
+  const isTaker = orderType !== 'post_only' && amountNum > 0 && (isMarket || crossesBook);
+  const estimate = isTaker
+    ? estimateFill(opposite, amountNum, side === 'buy', isMarket ? undefined : priceNum)
+    : null;
+
+  const slippageNum = parseFloat(slippage);
+  const slippageError = !(slippageNum > 0) || slippageNum > TRADING_CONFIG.maxSlippage
+    ? `Slippage must be above 0% and at most ${TRADING_CONFIG.maxSlippage}%`
+    : '';
+  // The server holds every fill to this bound, so it is measured from the
+  // last level the order is expected to reach
+  const worstPrice = estimate?.worstPrice != null && !slippageError
+    ? worstAcceptablePrice(estimate.worstPrice, side === 'buy', slippageNum)
+    : undefined;
+
+  // Buys spend the quote token and sells the base token, both from escrow
+  const spendToken = side === 'buy' ? market.quote : market.base;
+  const spendable = escrowBalanceOf(escrow, spendToken)?.available ?? null;
+  const needsDeposit = spendable !== null && parseFloat(spendable) === 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,37 +86,59 @@ export default function TradePanel({ address }: TradePanelProps) {
       return;
     }
 
-    if (!amount || !price) {
-      setError('Please enter both amount and price');
+    if (!amount || (!isMarket && !price)) {
+      setError(isMarket ? 'Please enter an amount' : 'Please enter both amount and price');
       return;
     }
 
-    const amountNum = parseFloat(amount);
-    const priceNum = parseFloat(price);
+    if (amountNum < parseFloat(market.minOrder)) {
+      setError(`Minimum order amount is ${market.minOrder} ${market.base}`);
+      return;
+    }
 
-    if (amountNum < TRADING_CONFIG.minOrderAmount) {
-      setError(`Minimum order amount is ${TRADING_CONFIG.minOrderAmount}`);
+    if (isTaker && slippageError) {
+      setError(slippageError);
       return;
     }
 
     setIsSubmitting(true);
     setError('');
-    setSuccess('');
 
     try {
       console.log('Creating order:', {
+        market: market.id,
+        side,
         type: orderType,
         amount: amount,
         price: price,
+        worstPrice,
       });
 
       // Call API to create order
-      const response = await createOrder(orderType === 'buy', amount, price);
+      const response = await createOrder(
+        market.id,
+        side === 'buy',
+        amount,
+        isMarket ? undefined : price,
+        orderType,
+        isTaker ? worstPrice : undefined
+      );
 
-      setSuccess(`${orderType.toUpperCase()} order created successfully! Order ID: ${response.orderId}`);
+      // Orders match off-chain; the notification tray follows their fills until they settle on chain
+      trackTransaction(`${side.toUpperCase()} ${market.id}`, response.transaction, getSessionToken())
+        .finally(() => refreshEscrow(address));
       setAmount('');
       setPrice('');
+      refreshEscrow(address);
     } catch (err) {
+      if (err instanceof APIError && err.code === 'ORDER_REJECTED') {
+        setError('Order rejected: ' + err.message);
+        return;
+      }
+      if (err instanceof APIError && err.code === 'INSUFFICIENT_BALANCE') {
+        setError(err.message);
+        return;
+      }
       setError('Failed to create order: ' + (err as Error).message);
       console.error('Order creation error:', err);
     } finally {
@@ -64,18 +146,18 @@ export default function TradePanel({ address }: TradePanelProps) {
     }
   };
 
-  const total = amount && price ? (parseFloat(amount) * parseFloat(price)).toFixed(4) : '0.0000';
+  const total = amount && price && !isMarket ? (parseFloat(amount) * parseFloat(price)).toFixed(4) : '0.0000';
 
   return (
     <div className="bg-gray-900 border border-purple-700/30 rounded-xl p-6 shadow-xl">
-      <h2 className="text-2xl font-bold text-purple-300 mb-6">Trade Panel</h2>
+      <h2 className="text-2xl font-bold text-purple-300 mb-6">Trade {market.id}</h2>
 
-      {/* Order Type Tabs */}
-      <div className="flex gap-2 mb-6">
+      {/* Side Tabs */}
+      <div className="flex gap-2 mb-4">
         <button
-          onClick={() => setOrderType('buy')}
+          onClick={() => setSide('buy')}
           className={`flex-1 py-2 px-4 rounded-lg font-medium transition-colors ${
-            orderType === 'buy'
+            side === 'buy'
               ? 'bg-green-600 text-white'
               : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
           }`}
@@ -83,9 +165,9 @@ export default function TradePanel({ address }: TradePanelProps) {
           BUY
         </button>
         <button
-          onClick={() => setOrderType('sell')}
+          onClick={() => setSide('sell')}
           className={`flex-1 py-2 px-4 rounded-lg font-medium transition-colors ${
-            orderType === 'sell'
+            side === 'sell'
               ? 'bg-red-600 text-white'
               : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
           }`}
@@ -94,48 +176,159 @@ export default function TradePanel({ address }: TradePanelProps) {
         </button>
       </div>
 
+      {/* Order Type Selector */}
+      <div className="mb-6">
+        <div className="grid grid-cols-5 gap-1 bg-gray-800 rounded-lg p-1">
+          {ORDER_TYPE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setOrderType(option.value)}
+              className={`py-1.5 rounded text-xs font-medium transition-colors ${
+                orderType === option.value
+                  ? 'bg-purple-600 text-white'
+                  : 'text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="text-xs text-gray-500 mt-2">
+          {selectedType.description}
+        </div>
+      </div>
+
       <form onSubmit={handleSubmit} className="space-y-4">
         {/* Amount Input */}
         <div>
           <label className="block text-sm font-medium text-gray-300 mb-2">
-            Amount
+            Amount ({market.base})
           </label>
           <input
             type="number"
-            step="0.000001"
+            step={market.lotSize}
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
             placeholder="0.00"
             className="w-full px-3 py-2 bg-gray-800 border border-purple-700/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500"
           />
           <div className="text-xs text-gray-500 mt-1">
-            Min: {TRADING_CONFIG.minOrderAmount}
+            Min: {market.minOrder} · Lot: {market.lotSize}
           </div>
         </div>
 
         {/* Price Input */}
-        <div>
-          <label className="block text-sm font-medium text-gray-300 mb-2">
-            Price
-          </label>
-          <input
-            type="number"
-            step="0.01"
-            value={price}
-            onChange={(e) => setPrice(e.target.value)}
-            placeholder="0.00"
-            className="w-full px-3 py-2 bg-gray-800 border border-purple-700/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500"
-          />
-        </div>
+        {!isMarket && (
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Price ({market.quote})
+            </label>
+            <input
+              type="number"
+              step={market.tickSize}
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="0.00"
+              className="w-full px-3 py-2 bg-gray-800 border border-purple-700/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500"
+            />
+          </div>
+        )}
+
+        {/* Price Impact Preview */}
+        {estimate && (
+          <div className="bg-gray-800 border border-purple-700/30 rounded-lg p-3 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-400">Est. average price</span>
+              <span className="text-white font-mono">
+                {estimate.averagePrice !== null ? estimate.averagePrice.toFixed(4) : '—'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Price impact</span>
+              <span className={`font-mono ${estimate.impactPercent > HIGH_IMPACT_PERCENT ? 'text-yellow-400' : 'text-white'}`}>
+                {estimate.impactPercent.toFixed(2)}%
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Worst fill</span>
+              <span className="text-white font-mono">
+                {estimate.worstPrice !== null ? estimate.worstPrice.toFixed(4) : '—'}
+              </span>
+            </div>
+
+            {!estimate.fullyFilled && (
+              <div className="text-xs text-yellow-400 bg-yellow-900/20 border border-yellow-700/30 rounded p-2">
+                {isMarket || orderType === 'fok'
+                  ? `Insufficient liquidity: only ${estimate.filled} can fill now`
+                  : `Only ${estimate.filled} fills immediately at your price`}
+                {orderType === 'fok' && '; this order would be rejected'}
+              </div>
+            )}
+
+            {/* Slippage Tolerance */}
+            <div className="pt-2 border-t border-gray-700">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-gray-400">Slippage tolerance</span>
+                <div className="flex gap-1 items-center">
+                  {SLIPPAGE_PRESETS.map((preset) => (
+                    <button
+                      key={preset}
+                      type="button"
+                      onClick={() => setSlippage(String(preset))}
+                      className={`px-2 py-0.5 rounded text-xs transition-colors ${
+                        slippageNum === preset
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-700 text-gray-400 hover:text-gray-200'
+                      }`}
+                    >
+                      {preset}%
+                    </button>
+                  ))}
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    max={TRADING_CONFIG.maxSlippage}
+                    value={slippage}
+                    onChange={(e) => setSlippage(e.target.value)}
+                    aria-label="Custom slippage tolerance"
+                    className="w-16 px-2 py-0.5 bg-gray-700 border border-purple-700/30 rounded text-xs text-white focus:outline-none focus:border-purple-500"
+                  />
+                </div>
+              </div>
+              {slippageError ? (
+                <div className="text-xs text-red-400">{slippageError}</div>
+              ) : (
+                <div className="flex justify-between text-xs">
+                  <span className="text-gray-500">Worst acceptable price</span>
+                  <span className="text-gray-300 font-mono">{worstPrice ?? '—'}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
 
         {/* Total */}
         <div className="bg-gray-800 border border-purple-700/30 rounded-lg p-3">
           <div className="flex justify-between items-center">
             <span className="text-gray-400">Total:</span>
-            <span className="text-white font-mono text-lg">{total}</span>
+            <span className="text-white font-mono text-lg">{isMarket ? 'At market' : `${total} ${market.quote}`}</span>
           </div>
         </div>
 
+        {/* Escrowed Funds */}
+        {spendable !== null && (
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-500">Available in escrow</span>
+            <span className="text-gray-300 font-mono">{spendable} {spendToken}</span>
+          </div>
+        )}
+        {needsDeposit && (
+          <div className="text-xs text-yellow-400 bg-yellow-900/20 border border-yellow-700/30 rounded-lg p-2">
+            Deposit {spendToken} to escrow before placing {side} orders
+          </div>
+        )}
+
         {/* Error/Success Messages */}
         {error && (
           <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3">
@@ -143,18 +336,12 @@ export default function TradePanel({ address }: TradePanelProps) {
           </div>
         )}
 
-        {success && (
-          <div className="text-green-400 text-sm bg-green-900/20 border border-green-700/30 rounded-lg p-3">
-            {success}
-          </div>
-        )}
-
         {/* Submit Button */}
         <button
           type="submit"
           disabled={!address || isSubmitting}
           className={`w-full font-medium py-3 px-4 rounded-lg transition-colors ${
-            orderType === 'buy'
+            side === 'buy'
               ? 'bg-green-600 hover:bg-green-700 disabled:bg-gray-700'
               : 'bg-red-600 hover:bg-red-700 disabled:bg-gray-700'
           } text-white disabled:cursor-not-allowed`}
@@ -163,7 +350,7 @@ export default function TradePanel({ address }: TradePanelProps) {
             ? 'Processing...'
             : !address
             ? 'Connect Wallet First'
-            : `${orderType.toUpperCase()}`}
+            : `${side.toUpperCase()} ${selectedType.label.toUpperCase()}`}
         </button>
       </form>
 
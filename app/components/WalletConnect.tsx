@@ -1,25 +1,70 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { connectWallet as apiConnectWallet, getHealth } from '../lib/api';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  connectWallet as apiConnectWallet,
+  getHealth,
+  onSessionExpired,
+} from '../lib/api';
+import {
+  addAccount,
+  switchAccount,
+  removeAccount,
+  clearAccounts,
+  discardSavedAccounts,
+  useAccounts,
+  type Account,
+} from '../lib/accounts';
+import {
+  encryptSecret,
+  decryptSecret,
+  parseKeystore,
+  loadKeystore,
+  saveKeystore,
+  clearKeystore,
+  exportKeystore,
+  type Keystore,
+} from '../lib/keystore';
+import { getSelectedNetwork, useNetwork } from '../lib/network';
+import { WALLET_CONFIG } from '../config';
+import { DEFAULT_ACCOUNT_SALT } from '../../shared/contract.mjs';
 
-interface WalletConnectProps {
-  onWalletChange: (address: string | null) => void;
-}
+const AUTO_LOCK_MS = WALLET_CONFIG.autoLockMinutes * 60 * 1000;
+const MIN_PASSPHRASE_LENGTH = 8;
 
-export default function WalletConnect({ onWalletChange }: WalletConnectProps) {
-  const [address, setAddress] = useState<string | null>(null);
+export default function WalletConnect() {
+  const { accounts, activeAddress } = useAccounts();
+  const network = useNetwork();
+  const [label, setLabel] = useState('');
   const [secretKey, setSecretKey] = useState('');
+  const [salt, setSalt] = useState(DEFAULT_ACCOUNT_SALT);
+  const [keystore, setKeystore] = useState<Keystore | null>(null);
+  const [saveKeystoreChecked, setSaveKeystoreChecked] = useState(true);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [showAddAccount, setShowAddAccount] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState('');
   const [status, setStatus] = useState('');
   const [apiHealthy, setApiHealthy] = useState(false);
+  const lastActivityRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const restoredRef = useRef(false);
+
+  const connected = accounts.length > 0;
 
   useEffect(() => {
     const checkApiHealth = async () => {
       try {
         setStatus('Connecting to API backend...');
-        await getHealth();
+        const health = await getHealth();
+        // Sessions and balances are only meaningful on the network the user picked
+        const expected = getSelectedNetwork();
+        if (health.network !== expected.id) {
+          setStatus('');
+          setError(`The API backend serves ${health.network}, not ${expected.name}; point ${expected.name} at its own API server`);
+          return;
+        }
         setApiHealthy(true);
         setStatus('API backend connected');
       } catch (err) {
@@ -31,6 +76,38 @@ export default function WalletConnect({ onWalletChange }: WalletConnectProps) {
     checkApiHealth();
   }, []);
 
+  const recordActivity = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  const resetForm = () => {
+    setLabel('');
+    setSecretKey('');
+    setSalt(DEFAULT_ACCOUNT_SALT);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setShowAddAccount(false);
+  };
+
+  // Exchange a secret key for a session and register the account
+  const connectAccount = async (
+    secret: string,
+    accountLabel: string,
+    accountSalt: string,
+    activate: boolean
+  ): Promise<Account> => {
+    const response = await apiConnectWallet(secret, accountSalt);
+    const account: Account = {
+      address: response.address,
+      label: accountLabel,
+      salt: accountSalt,
+      sessionToken: response.sessionToken,
+      expiresAt: response.expiresAt,
+    };
+    addAccount(account, activate);
+    return account;
+  };
+
   const handleConnectWallet = async () => {
     if (!apiHealthy) {
       setError('API backend not ready. Please wait...');
@@ -47,23 +124,54 @@ export default function WalletConnect({ onWalletChange }: WalletConnectProps) {
       return;
     }
 
+    if (!/^0x[0-9a-fA-F]{1,64}$/.test(salt)) {
+      setError('Salt must be a hex value (0x + up to 64 hex chars)');
+      return;
+    }
+
+    // A new keystore needs a passphrase; further accounts reuse the existing one
+    const encrypt = keystore !== null || saveKeystoreChecked;
+    if (encrypt) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (!keystore && passphrase !== confirmPassphrase) {
+        setError('Passphrases do not match');
+        return;
+      }
+    }
+
     setIsConnecting(true);
     setError('');
     setStatus('');
 
     try {
-      setStatus('Connecting wallet via API...');
-      const response = await apiConnectWallet(secretKey);
+      if (keystore) {
+        setStatus('Verifying keystore passphrase...');
+        await decryptSecret(keystore.accounts[0], passphrase);
+      }
 
-      setAddress(response.address);
-      onWalletChange(response.address);
-      setStatus('Wallet connected successfully!');
+      setStatus('Connecting wallet via API...');
+      const accountLabel = label.trim() || `Account ${accounts.length + 1}`;
+      const account = await connectAccount(secretKey, accountLabel, salt, true);
 
-      // Save to localStorage for convenience
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('aztec_secret_key', secretKey);
-        localStorage.setItem('aztec_address', response.address);
+      if (encrypt) {
+        setStatus('Encrypting keystore...');
+        const entry = await encryptSecret(secretKey, passphrase, {
+          label: accountLabel,
+          address: account.address,
+          accountSalt: salt,
+        });
+        const others = keystore?.accounts.filter((existing) => existing.address !== account.address) ?? [];
+        const updated: Keystore = { version: 2, accounts: [...others, entry] };
+        saveKeystore(updated);
+        setKeystore(updated);
       }
+
+      resetForm();
+      recordActivity();
+      setStatus(`${accountLabel} connected`);
     } catch (err) {
       const errorMessage = (err as Error).message;
       setError('Failed to connect wallet: ' + errorMessage);
@@ -74,114 +182,458 @@ export default function WalletConnect({ onWalletChange }: WalletConnectProps) {
     }
   };
 
-  const disconnectWallet = () => {
-    setAddress(null);
-    setSecretKey('');
+  const handleUnlock = async () => {
+    if (!keystore || !passphrase) return;
+
+    if (!apiHealthy) {
+      setError('API backend not ready. Please wait...');
+      return;
+    }
+
+    setIsConnecting(true);
+    setError('');
+    setStatus('Unlocking keystore...');
+
+    try {
+      const secrets = await Promise.all(
+        keystore.accounts.map((entry) => decryptSecret(entry, passphrase))
+      );
+
+      setStatus('Connecting wallet via API...');
+      for (const [index, entry] of keystore.accounts.entries()) {
+        await connectAccount(secrets[index], entry.label, entry.accountSalt, index === 0);
+      }
+
+      setPassphrase('');
+      recordActivity();
+      setStatus(`Unlocked ${keystore.accounts.length} account${keystore.accounts.length === 1 ? '' : 's'}`);
+    } catch (err) {
+      setError((err as Error).message);
+      setStatus('');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parseKeystore(await file.text());
+      saveKeystore(imported);
+      setKeystore(imported);
+      setError('');
+      setStatus('Keystore imported. Enter its passphrase to unlock.');
+    } catch (err) {
+      setError('Failed to import keystore: ' + (err as Error).message);
+    }
+  };
+
+  const handleForgetKeystore = () => {
+    if (!window.confirm('Remove the saved keystore from this device? Export it first if you need a backup.')) {
+      return;
+    }
+    clearKeystore();
+    setKeystore(null);
+    setPassphrase('');
     setStatus('');
-    onWalletChange(null);
+  };
 
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('aztec_secret_key');
-      localStorage.removeItem('aztec_address');
+  const handleRemoveAccount = async (account: Account) => {
+    const stored = keystore?.accounts.some((entry) => entry.address === account.address);
+    const prompt = stored
+      ? `Remove ${account.label} and delete its key from the keystore on this device?`
+      : `Disconnect ${account.label}?`;
+    if (!window.confirm(prompt)) {
+      return;
+    }
+
+    await removeAccount(account.address);
+
+    if (keystore && stored) {
+      const remaining = keystore.accounts.filter((entry) => entry.address !== account.address);
+      if (remaining.length > 0) {
+        const updated: Keystore = { version: 2, accounts: remaining };
+        saveKeystore(updated);
+        setKeystore(updated);
+      } else {
+        clearKeystore();
+        setKeystore(null);
+      }
     }
   };
 
-  // Auto-load from localStorage on mount
+  const lockWallet = useCallback(async () => {
+    await clearAccounts();
+    setShowAddAccount(false);
+    setStatus('');
+  }, []);
+
+  // Tell the user why an account disappeared when the server rejects its session
   useEffect(() => {
-    const savedKey = localStorage.getItem('aztec_secret_key');
-    const savedAddress = localStorage.getItem('aztec_address');
-    if (savedKey && savedAddress && apiHealthy && !address) {
-      setSecretKey(savedKey);
-      setAddress(savedAddress);
-      onWalletChange(savedAddress);
-      setStatus('Wallet loaded from session');
-    }
-  }, [apiHealthy, address, onWalletChange]);
+    return onSessionExpired(() => {
+      setStatus('Session expired. Please reconnect the account.');
+    });
+  }, []);
+
+  // Load the saved keystore; its accounts stay locked until the passphrase is entered
+  useEffect(() => {
+    if (!apiHealthy || restoredRef.current) return;
+    restoredRef.current = true;
+
+    // Earlier versions stored the raw secret key or session tokens; make sure they are gone
+    localStorage.removeItem('aztec_secret_key');
+    localStorage.removeItem('aztec_address');
+    localStorage.removeItem('aztec_session');
+    localStorage.removeItem('aztec_last_activity');
+    discardSavedAccounts();
+
+    setKeystore(loadKeystore());
+  }, [apiHealthy]);
+
+  // Auto-lock: revoke every session after a period without user activity
+  useEffect(() => {
+    if (!connected) return;
+
+    const events = ['mousemove', 'keydown', 'pointerdown', 'scroll', 'touchstart'];
+    events.forEach((event) => window.addEventListener(event, recordActivity, { passive: true }));
+
+    const interval = setInterval(async () => {
+      if (Date.now() - lastActivityRef.current > AUTO_LOCK_MS) {
+        await lockWallet();
+        setStatus(`Wallet locked after ${WALLET_CONFIG.autoLockMinutes} minutes of inactivity`);
+      }
+    }, 30000);
+
+    return () => {
+      events.forEach((event) => window.removeEventListener(event, recordActivity));
+      clearInterval(interval);
+    };
+  }, [connected, lockWallet, recordActivity]);
+
+  const inputClassName = 'w-full px-3 py-2 bg-gray-800 border border-purple-700/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500 font-mono text-sm';
+
+  const messages = (
+    <>
+      {status && (
+        <div className="text-purple-400 text-sm bg-purple-900/20 border border-purple-700/30 rounded-lg p-3">
+          {status}
+        </div>
+      )}
+
+      {error && (
+        <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3">
+          {error}
+        </div>
+      )}
+    </>
+  );
+
+  const importButton = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        className="text-xs text-gray-500 hover:text-purple-400 transition-colors"
+      >
+        Import keystore file
+      </button>
+    </>
+  );
+
+  // Shared by the first connection and "Add account"
+  const accountForm = (submitLabel: string) => (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Label
+        </label>
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder={`Account ${accounts.length + 1} (e.g. Maker, Treasury)`}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Secret Key (Hex)
+        </label>
+        <input
+          type="password"
+          value={secretKey}
+          onChange={(e) => setSecretKey(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleConnectWallet()}
+          placeholder="0x..."
+          className={inputClassName}
+        />
+        <div className="text-xs text-gray-500 mt-1">
+          Enter your Aztec account secret key (32+ hex chars)
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Account Salt
+        </label>
+        <input
+          type="text"
+          value={salt}
+          onChange={(e) => setSalt(e.target.value)}
+          placeholder={DEFAULT_ACCOUNT_SALT}
+          className={inputClassName}
+        />
+        <div className="text-xs text-gray-500 mt-1">
+          Salt the account was deployed with (default {DEFAULT_ACCOUNT_SALT})
+        </div>
+      </div>
+
+      {keystore ? (
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleConnectWallet()}
+          placeholder="Keystore passphrase"
+          className={inputClassName}
+        />
+      ) : (
+        <>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={saveKeystoreChecked}
+              onChange={(e) => setSaveKeystoreChecked(e.target.checked)}
+              className="accent-purple-500"
+            />
+            Save encrypted on this device
+          </label>
+
+          {saveKeystoreChecked && (
+            <div className="space-y-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder={`Passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleConnectWallet()}
+                placeholder="Confirm passphrase"
+                className={inputClassName}
+              />
+            </div>
+          )}
+        </>
+      )}
+
+      {messages}
+
+      <button
+        onClick={handleConnectWallet}
+        disabled={isConnecting || !secretKey || !apiHealthy}
+        className="w-full bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 disabled:from-gray-700 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-all shadow-lg"
+      >
+        {isConnecting ? (
+          <span className="flex items-center justify-center gap-2">
+            <div className="spinner"></div>
+            Connecting...
+          </span>
+        ) : !apiHealthy ? (
+          'Connecting to API...'
+        ) : (
+          submitLabel
+        )}
+      </button>
+    </div>
+  );
 
   return (
     <div className="bg-gray-900 border border-purple-700/30 rounded-xl p-6 shadow-xl">
       <h2 className="text-2xl font-bold text-purple-300 mb-6">Wallet</h2>
 
-      {!address ? (
+      {!connected && keystore ? (
         <div className="space-y-4">
+          <div>
+            <div className="text-sm text-gray-400 mb-1">Locked Accounts:</div>
+            <div className="space-y-1">
+              {keystore.accounts.map((entry) => (
+                <div
+                  key={entry.address}
+                  className="flex justify-between gap-2 text-xs bg-gray-800 p-2 rounded-lg border border-purple-700/30"
+                >
+                  <span className="text-gray-300">{entry.label}</span>
+                  <span className="text-purple-300 font-mono">
+                    {entry.address.slice(0, 10)}...{entry.address.slice(-6)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              Secret Key (Hex)
+              Passphrase
             </label>
             <input
               type="password"
-              value={secretKey}
-              onChange={(e) => setSecretKey(e.target.value)}
-              onKeyPress={(e) => e.key === 'Enter' && handleConnectWallet()}
-              placeholder="0x..."
-              className="w-full px-3 py-2 bg-gray-800 border border-purple-700/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-purple-500 font-mono text-sm"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+              placeholder="Keystore passphrase"
+              autoFocus
+              className={inputClassName}
             />
-            <div className="text-xs text-gray-500 mt-1">
-              Enter your Aztec account secret key (32+ hex chars)
-            </div>
           </div>
 
-          {status && (
-            <div className="text-purple-400 text-sm bg-purple-900/20 border border-purple-700/30 rounded-lg p-3">
-              {status}
-            </div>
-          )}
-
-          {error && (
-            <div className="text-red-400 text-sm bg-red-900/20 border border-red-700/30 rounded-lg p-3">
-              {error}
-            </div>
-          )}
+          {messages}
 
           <button
-            onClick={handleConnectWallet}
-            disabled={isConnecting || !secretKey || !apiHealthy}
+            onClick={handleUnlock}
+            disabled={isConnecting || !passphrase || !apiHealthy}
             className="w-full bg-gradient-to-r from-purple-600 to-purple-700 hover:from-purple-700 hover:to-purple-800 disabled:from-gray-700 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-all shadow-lg"
           >
             {isConnecting ? (
               <span className="flex items-center justify-center gap-2">
                 <div className="spinner"></div>
-                Connecting...
+                Unlocking...
               </span>
             ) : !apiHealthy ? (
               'Connecting to API...'
             ) : (
-              'Connect Wallet'
+              'Unlock Wallet'
             )}
           </button>
 
+          <div className="flex justify-between">
+            {importButton}
+            <button
+              type="button"
+              onClick={handleForgetKeystore}
+              className="text-xs text-gray-500 hover:text-red-400 transition-colors"
+            >
+              Use a different key
+            </button>
+          </div>
+        </div>
+      ) : !connected ? (
+        <div className="space-y-4">
+          {accountForm('Connect Wallet')}
+
+          <div className="text-right">{importButton}</div>
+
           <div className="text-xs text-gray-600 bg-gray-800/30 rounded-lg p-3">
-            <p className="font-semibold mb-1">Don't have an account?</p>
+            <p className="font-semibold mb-1">Don&apos;t have an account?</p>
             <p>Generate a secret key using Aztec CLI or create one with crypto.randomBytes(32)</p>
           </div>
         </div>
       ) : (
         <div className="space-y-4">
           <div>
-            <div className="text-sm text-gray-400 mb-1">Connected Address:</div>
-            <div className="text-xs text-purple-300 font-mono break-all bg-gray-800 p-3 rounded-lg border border-purple-700/30">
-              {address}
+            <div className="text-sm text-gray-400 mb-1">Accounts:</div>
+            <div className="space-y-2">
+              {accounts.map((account) => {
+                const isActive = account.address === activeAddress;
+                return (
+                  <div
+                    key={account.address}
+                    className={`flex items-center gap-2 p-3 rounded-lg border transition-colors ${
+                      isActive
+                        ? 'bg-purple-900/30 border-purple-500/50'
+                        : 'bg-gray-800 border-purple-700/30 hover:border-purple-600/50'
+                    }`}
+                  >
+                    <button
+                      onClick={() => switchAccount(account.address)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="flex items-center gap-2 text-sm text-gray-200">
+                        {isActive && <div className="w-2 h-2 bg-green-500 rounded-full"></div>}
+                        {account.label}
+                      </div>
+                      <div className="text-xs text-purple-300 font-mono truncate">
+                        {account.address}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleRemoveAccount(account)}
+                      className="text-xs text-gray-500 hover:text-red-400 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                );
+              })}
             </div>
           </div>
 
           <div className="bg-green-900/20 border border-green-700/30 rounded-lg p-3">
             <div className="flex items-center gap-2 text-sm text-green-400">
               <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-              <span>Connected to Aztec Devnet</span>
+              <span>Connected to {network.name}</span>
             </div>
           </div>
 
-          {status && (
-            <div className="text-xs text-gray-500 bg-gray-800/30 rounded p-2">
-              {status}
+          {showAddAccount ? (
+            <div className="border-t border-purple-700/30 pt-4">
+              {accountForm('Add Account')}
+              <button
+                type="button"
+                onClick={resetForm}
+                className="mt-2 text-xs text-gray-500 hover:text-purple-400 transition-colors"
+              >
+                Cancel
+              </button>
             </div>
+          ) : (
+            <>
+              {status && (
+                <div className="text-xs text-gray-500 bg-gray-800/30 rounded p-2">
+                  {status}
+                </div>
+              )}
+
+              <button
+                onClick={() => {
+                  setError('');
+                  setShowAddAccount(true);
+                }}
+                className="w-full bg-gray-800 hover:bg-gray-700 border border-purple-700/30 text-purple-300 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Add Account
+              </button>
+            </>
+          )}
+
+          {keystore && (
+            <button
+              onClick={() => exportKeystore(keystore)}
+              className="w-full bg-gray-800 hover:bg-gray-700 border border-purple-700/30 text-purple-300 font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              Export Encrypted Keystore
+            </button>
           )}
 
           <button
-            onClick={disconnectWallet}
+            onClick={lockWallet}
             className="w-full bg-red-600 hover:bg-red-700 text-white font-medium py-3 px-4 rounded-lg transition-colors"
           >
-            Disconnect
+            {keystore ? 'Lock Wallet' : 'Disconnect All'}
           </button>
         </div>
       )}
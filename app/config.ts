@@ -1,17 +1,21 @@
-export const NETWORK_CONFIG = {
-  pxeUrl: 'https://devnet.aztec-labs.com/',
-  chainId: 'aztec-devnet-v3.0.0-devnet.5',
-};
-
-export const CONTRACT_ADDRESSES = {
-  token: '0x2731c1024ce94a508083fe50ae1b22a1274f0f7a4c7157e294899b366ea55816',
-  escrow: '0x161fcf08c79d512031323bee0f49381ade4799a3b6b7b3470e9c5a43af9eebc2',
-  orderBook: '0x23d2149ea91babceacc6e98fe5bef2dfd875622516ba182da53cb7f1b466aaac',
-  sponsoredFpc: '0x280e5686a148059543f4d0968f9a18cd4992520fcd887444b8689bf2726a1f97',
+// API server serving each network profile in shared/networks.mjs (default http://localhost:3001)
+export const API_URLS: Record<string, string | undefined> = {
+  local: process.env.NEXT_PUBLIC_LOCAL_API_URL,
+  devnet: process.env.NEXT_PUBLIC_API_URL,
+  testnet: process.env.NEXT_PUBLIC_TESTNET_API_URL,
 };
 
 export const TRADING_CONFIG = {
   defaultSlippage: 0.5, // 0.5%
   maxSlippage: 5, // 5%
-  minOrderAmount: 0.001,
+};
+
+export const STATUS_CONFIG = {
+  pollSeconds: 15, // How often the Header re-checks API and chain health
+  stallMinutes: 3, // Warn when the latest block has not moved for this long
+};
+
+export const WALLET_CONFIG = {
+  autoLockMinutes: 15, // Lock the wallet after this long without user activity
+  keystoreIterations: 310000, // PBKDF2-SHA256 rounds for passphrase key derivation
 };
@@ -0,0 +1,159 @@
+// Connected Accounts
+// Tracks every account the user has unlocked in this browser, each with its
+// own session token, and which one is active. Components follow the active
+// account through useAccounts(); switching never needs the secret key again.
+// Session tokens are kept in memory only, so a reload needs the keystore
+// unlocked again before any account can act.
+
+import { useSyncExternalStore } from 'react';
+import { disconnectWallet, onSessionExpired, setSessionToken } from './api';
+
+export interface Account {
+  address: string;
+  label: string;
+  salt: string;
+  sessionToken: string;
+  expiresAt: number;
+}
+
+export interface AccountsState {
+  accounts: Account[];
+  activeAddress: string | null;
+}
+
+// Where earlier versions saved every session token in plaintext
+const ACCOUNTS_STORAGE_KEY = 'aztec_accounts';
+
+const INITIAL_STATE: AccountsState = { accounts: [], activeAddress: null };
+
+let state: AccountsState = INITIAL_STATE;
+const listeners = new Set<() => void>();
+
+function setState(next: AccountsState) {
+  state = next;
+  const active = next.accounts.find((account) => account.address === next.activeAddress);
+  setSessionToken(active?.sessionToken ?? null);
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return state;
+}
+
+/**
+ * Look up a connected account
+ * @param address Account address
+ * @returns The account, or undefined if it is not connected
+ */
+export function getAccount(address: string): Account | undefined {
+  return state.accounts.find((account) => account.address === address);
+}
+
+/**
+ * Add (or refresh) a connected account
+ * @param account Account with a live session
+ * @param activate Make it the active account
+ */
+export function addAccount(account: Account, activate = true): void {
+  const accounts = [...state.accounts.filter((existing) => existing.address !== account.address), account];
+  setState({
+    accounts,
+    activeAddress: activate || !state.activeAddress ? account.address : state.activeAddress,
+  });
+}
+
+/**
+ * Make a connected account the one every panel acts for
+ * @param address Account address
+ */
+export function switchAccount(address: string): void {
+  if (!getAccount(address)) {
+    throw new Error(`Account ${address} is not connected`);
+  }
+  setState({ ...state, activeAddress: address });
+}
+
+function dropAccount(address: string) {
+  const accounts = state.accounts.filter((account) => account.address !== address);
+  const activeAddress = state.activeAddress === address
+    ? accounts[0]?.address ?? null
+    : state.activeAddress;
+  setState({ accounts, activeAddress });
+}
+
+/**
+ * Revoke an account's session and forget it
+ * @param address Account address
+ */
+export async function removeAccount(address: string): Promise<void> {
+  const account = getAccount(address);
+  if (!account) return;
+
+  dropAccount(address);
+  try {
+    await disconnectWallet(account.sessionToken);
+  } catch (err) {
+    console.error('Failed to revoke session:', err);
+  }
+}
+
+/**
+ * Revoke every session, e.g. when the wallet locks
+ */
+export async function clearAccounts(): Promise<void> {
+  const { accounts } = state;
+  setState(INITIAL_STATE);
+
+  await Promise.all(
+    accounts.map((account) =>
+      disconnectWallet(account.sessionToken).catch((err) => {
+        console.error('Failed to revoke session:', err);
+      })
+    )
+  );
+}
+
+/**
+ * Revoke and delete the sessions an earlier version saved to localStorage
+ */
+export async function discardSavedAccounts(): Promise<void> {
+  const raw = localStorage.getItem(ACCOUNTS_STORAGE_KEY);
+  if (!raw) return;
+  localStorage.removeItem(ACCOUNTS_STORAGE_KEY);
+
+  let saved: AccountsState;
+  try {
+    saved = JSON.parse(raw);
+  } catch {
+    return;
+  }
+  await Promise.all(
+    saved.accounts.map((account) =>
+      disconnectWallet(account.sessionToken).catch((err) => {
+        console.error('Failed to revoke saved session:', err);
+      })
+    )
+  );
+}
+
+// The API client clears the active token when the server rejects it
+onSessionExpired(() => {
+  if (state.activeAddress) {
+    dropAccount(state.activeAddress);
+  }
+});
+
+/**
+ * Subscribe to the connected accounts
+ * @returns Connected accounts and the active address
+ */
+export function useAccounts(): AccountsState {
+  return useSyncExternalStore(subscribe, getSnapshot, () => INITIAL_STATE);
+}
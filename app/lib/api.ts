@@ -1,80 +1,172 @@
 // API Client for Backend Communication
-// This module provides functions to interact with the Node.js backend API
+// This module provides functions to interact with the Node.js backend API.
+// Request and response shapes come from shared/contract.mjs, which the
+// server validates against as well.
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+import {
+  parse,
+  ErrorSchema,
+  OrderSchema,
+  FillSchema,
+  AccountFillSchema,
+  CandleSchema,
+  BookLevelSchema,
+  TradeSchema,
+  HealthResponse as HealthResponseSchema,
+  ConnectWalletResponse as ConnectWalletResponseSchema,
+  BlockInfoResponse as BlockInfoResponseSchema,
+  OrdersResponse as OrdersResponseSchema,
+  CreateOrderResponse as CreateOrderResponseSchema,
+  CancelOrderResponse as CancelOrderResponseSchema,
+  CancelAllOrdersResponse as CancelAllOrdersResponseSchema,
+  BalanceResponse as BalanceResponseSchema,
+  SessionResponse as SessionResponseSchema,
+  TransferResponse as TransferResponseSchema,
+  TransactionResponse as TransactionResponseSchema,
+  TransactionsResponse as TransactionsResponseSchema,
+  TransactionSchema,
+  JobResponse as JobResponseSchema,
+  EscrowResponse as EscrowResponseSchema,
+  EscrowTransferResponse as EscrowTransferResponseSchema,
+  EscrowBalanceSchema,
+  EscrowMovementSchema,
+  JobSchema,
+  FillsResponse as FillsResponseSchema,
+  CandlesResponse as CandlesResponseSchema,
+  PnlResponse as PnlResponseSchema,
+  PnlAssetSchema,
+  EquityPointSchema,
+  MessageResponse,
+  type Schema,
+  type Infer,
+  type Issue,
+} from '../../shared/contract.mjs';
+import { getApiUrl } from './network';
 
-// Type definitions for API responses
-export interface WalletConnectResponse {
-  address: string;
-  message: string;
-}
+const API_URL = getApiUrl();
 
-export interface HealthResponse {
-  status: string;
-  timestamp: number;
-}
+// Type definitions for API responses
+export type WalletConnectResponse = Infer<typeof ConnectWalletResponseSchema>;
+export type SessionResponse = Infer<typeof SessionResponseSchema>;
+export type HealthResponse = Infer<typeof HealthResponseSchema>;
+export type BlockInfoResponse = Infer<typeof BlockInfoResponseSchema>;
+export type CreateOrderResponse = Infer<typeof CreateOrderResponseSchema>;
+export type CancelOrderResponse = Infer<typeof CancelOrderResponseSchema>;
+export type CancelAllOrdersResponse = Infer<typeof CancelAllOrdersResponseSchema>;
+export type Balance = Infer<typeof BalanceResponseSchema>;
+export type Order = Infer<typeof OrderSchema>;
+export type Fill = Infer<typeof FillSchema>;
+export type AccountFill = Infer<typeof AccountFillSchema>;
+export type FillsResponse = Infer<typeof FillsResponseSchema>;
+export type PnlResponse = Infer<typeof PnlResponseSchema>;
+export type PnlAsset = Infer<typeof PnlAssetSchema>;
+export type EquityPoint = Infer<typeof EquityPointSchema>;
+export type CostBasisMethod = PnlResponse['method'];
+export type Candle = Infer<typeof CandleSchema>;
+export type CandlesResponse = Infer<typeof CandlesResponseSchema>;
+export type CandleInterval = CandlesResponse['interval'];
+export type BookLevel = Infer<typeof BookLevelSchema>;
+export type Trade = Infer<typeof TradeSchema>;
+export type OrdersResponse = Infer<typeof OrdersResponseSchema>;
+export type TransferResponse = Infer<typeof TransferResponseSchema>;
+export type Transaction = Infer<typeof TransactionSchema>;
+export type TransactionStatus = Transaction['status'];
+export type Job = Infer<typeof JobSchema>;
+export type EscrowBalance = Infer<typeof EscrowBalanceSchema>;
+export type EscrowMovement = Infer<typeof EscrowMovementSchema>;
+export type EscrowResponse = Infer<typeof EscrowResponseSchema>;
+export type EscrowTransferResponse = Infer<typeof EscrowTransferResponseSchema>;
+export type TokenSymbol = EscrowBalance['token'];
+export type TransferVisibility = 'private' | 'public';
+export type OrderType = Order['type'];
 
-export interface BlockInfoResponse {
-  blockNumber: number;
-  timestamp: number;
-  transactionCount: number;
+// Error handling helper
+export class APIError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code = 'UNKNOWN',
+    public details?: Issue[]
+  ) {
+    super(message);
+    this.name = 'APIError';
+  }
 }
 
-export interface CreateOrderResponse {
-  orderId: string;
-  message: string;
-}
+// Session token of the connected wallet, sent as a bearer token with
+// requests that act on its behalf
+let sessionToken: string | null = null;
+const sessionExpiredListeners = new Set<() => void>();
 
-export interface Balance {
-  balance: string;
-  decimals: number;
+/**
+ * Set (or clear) the session token used to authorize wallet-scoped requests
+ * @param token Token from connectWallet, or null when disconnected
+ */
+export function setSessionToken(token: string | null): void {
+  sessionToken = token;
 }
 
-export interface Order {
-  id: string;
-  owner: string;
-  isBuy: boolean;
-  amount: string;
-  price: string;
-  filled: string;
-  status: number;
+/**
+ * Current session token, for transports that cannot send headers
+ */
+export function getSessionToken(): string | null {
+  return sessionToken;
 }
 
-export interface OrdersResponse {
-  orders: Order[];
+/**
+ * Register a callback for when the server rejects the session
+ * @returns Function that removes the callback
+ */
+export function onSessionExpired(listener: () => void): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
 }
 
-// Error handling helper
-class APIError extends Error {
-  constructor(public status: number, message: string) {
-    super(message);
-    this.name = 'APIError';
+function authHeaders(token = sessionToken): Record<string, string> {
+  if (!token) {
+    throw new Error('Wallet not connected');
   }
+  return { Authorization: `Bearer ${token}` };
 }
 
-// Generic fetch wrapper with error handling
-async function apiFetch<T>(endpoint: string, options?: RequestInit): Promise<T> {
+// Generic fetch wrapper: unwraps the { success, error } envelope and
+// validates the payload against the response schema
+async function apiFetch<T>(endpoint: string, schema: Schema<T>, options?: RequestInit): Promise<T> {
+  let response: Response;
   try {
-    const response = await fetch(`${API_URL}${endpoint}`, {
+    response = await fetch(`${API_URL}${endpoint}`, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
         ...options?.headers,
       },
     });
+  } catch (error) {
+    throw new Error(`Network error: ${(error as Error).message}`);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new APIError(response.status, errorText || response.statusText);
-    }
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new APIError(response.status, response.statusText || 'Invalid response from API');
+  }
 
-    return await response.json();
-  } catch (error) {
-    if (error instanceof APIError) {
-      throw error;
+  const envelope = body as { success?: boolean; error?: unknown };
+  if (!envelope.success) {
+    const error = parse(ErrorSchema, envelope.error);
+    const headers = options?.headers as Record<string, string> | undefined;
+    const usedActiveSession = sessionToken !== null && headers?.Authorization === `Bearer ${sessionToken}`;
+    if (response.status === 401 && usedActiveSession) {
+      setSessionToken(null);
+      sessionExpiredListeners.forEach((listener) => listener());
     }
-    throw new Error(`Network error: ${(error as Error).message}`);
+    throw new APIError(response.status, error.message, error.code, error.details);
   }
+
+  return parse(schema, body);
 }
 
 // ============================================================================
@@ -82,26 +174,47 @@ async function apiFetch<T>(endpoint: string, options?: RequestInit): Promise<T>
 // ============================================================================
 
 /**
- * Connect wallet using a secret key
+ * Connect wallet using a secret key. The key is exchanged for a session
+ * token, which authorizes every later request instead of the key.
  * @param secretKey The user's secret key (hex string)
- * @returns Wallet connection response with address
+ * @param salt Salt the account address is derived with (server default if omitted)
+ * @returns Wallet connection response with address and session token
  */
-export async function connectWallet(secretKey: string): Promise<WalletConnectResponse> {
-  return apiFetch<WalletConnectResponse>('/api/wallet/connect', {
+export async function connectWallet(secretKey: string, salt?: string): Promise<WalletConnectResponse> {
+  return apiFetch('/api/wallet/connect', ConnectWalletResponseSchema, {
     method: 'POST',
-    body: JSON.stringify({ secretKey }),
+    body: JSON.stringify({ secretKey, salt }),
   });
 }
 
 /**
- * Disconnect the current wallet session
+ * Check that a session is still valid
+ * @param token Session to check (defaults to the active session)
+ * @returns The session's address and expiry
  */
-export async function disconnectWallet(): Promise<void> {
-  await apiFetch('/api/wallet/disconnect', {
-    method: 'POST',
+export async function getSession(token = sessionToken): Promise<SessionResponse> {
+  return apiFetch('/api/wallet/session', SessionResponseSchema, {
+    headers: authHeaders(token),
   });
 }
 
+/**
+ * Disconnect a wallet session
+ * @param token Session to revoke (defaults to the active session)
+ */
+export async function disconnectWallet(token = sessionToken): Promise<void> {
+  try {
+    await apiFetch('/api/wallet/disconnect', MessageResponse, {
+      method: 'POST',
+      headers: authHeaders(token),
+    });
+  } finally {
+    if (token === sessionToken) {
+      setSessionToken(null);
+    }
+  }
+}
+
 // ============================================================================
 // Health & Node Info API
 // ============================================================================
@@ -111,7 +224,7 @@ export async function disconnectWallet(): Promise<void> {
  * @returns Health status response
  */
 export async function getHealth(): Promise<HealthResponse> {
-  return apiFetch<HealthResponse>('/api/health');
+  return apiFetch('/api/health', HealthResponseSchema);
 }
 
 /**
@@ -119,7 +232,7 @@ export async function getHealth(): Promise<HealthResponse> {
  * @returns Block information
  */
 export async function getBlockInfo(): Promise<BlockInfoResponse> {
-  return apiFetch<BlockInfoResponse>('/api/node/block');
+  return apiFetch('/api/node/block', BlockInfoResponseSchema);
 }
 
 // ============================================================================
@@ -127,39 +240,133 @@ export async function getBlockInfo(): Promise<BlockInfoResponse> {
 // ============================================================================
 
 /**
- * Create a new order in the order book
+ * Create a new order in a market's order book
+ * @param market Market id
  * @param isBuy True for buy order, false for sell order
  * @param amount Amount of tokens
- * @param price Price per token
+ * @param price Price per token (omitted for market orders)
+ * @param type Order type (defaults to limit)
+ * @param worstPrice Slippage guard: the server fills nothing beyond this price
  * @returns Order creation response
+ * @throws APIError with code ORDER_REJECTED when a post-only, FOK or market order cannot be placed
  */
 export async function createOrder(
+  market: string,
   isBuy: boolean,
   amount: string,
-  price: string
+  price: string | undefined,
+  type: OrderType = 'limit',
+  worstPrice?: string
 ): Promise<CreateOrderResponse> {
-  return apiFetch<CreateOrderResponse>('/api/orders/create', {
+  return apiFetch('/api/orders', CreateOrderResponseSchema, {
     method: 'POST',
-    body: JSON.stringify({ isBuy, amount, price }),
+    headers: authHeaders(),
+    body: JSON.stringify({
+      market,
+      side: isBuy ? 'buy' : 'sell',
+      type,
+      amount,
+      price,
+      worstPrice,
+    }),
   });
 }
 
 /**
- * Cancel an existing order
+ * Cancel an existing order owned by the connected wallet
  * @param orderId The ID of the order to cancel
+ * @returns Cancellation response with the cancelled order
+ */
+export async function cancelOrder(orderId: string): Promise<CancelOrderResponse> {
+  return apiFetch(`/api/orders/cancel/${encodeURIComponent(orderId)}`, CancelOrderResponseSchema, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+}
+
+/**
+ * Cancel every open order owned by the connected wallet
+ * @param market Only cancel orders in this market (defaults to every market)
+ * @returns Cancellation response listing the cancelled orders
  */
-export async function cancelOrder(orderId: string): Promise<void> {
-  return apiFetch(`/api/orders/cancel/${orderId}`, {
+export async function cancelAllOrders(market?: string): Promise<CancelAllOrdersResponse> {
+  const query = market ? `?market=${encodeURIComponent(market)}` : '';
+  return apiFetch(`/api/orders/cancel${query}`, CancelAllOrdersResponseSchema, {
     method: 'DELETE',
+    headers: authHeaders(),
   });
 }
 
 /**
- * Get orders for the connected wallet
+ * Get resting orders from a market's book
+ * @param market Market id (defaults to the server's default market)
  * @returns List of orders
  */
-export async function getOrders(): Promise<OrdersResponse> {
-  return apiFetch<OrdersResponse>('/api/orders');
+export async function getOrders(market?: string): Promise<OrdersResponse> {
+  const query = market ? `?market=${encodeURIComponent(market)}` : '';
+  return apiFetch(`/api/orders${query}`, OrdersResponseSchema);
+}
+
+/**
+ * Get every order placed by the connected wallet
+ * @returns List of orders, newest first
+ */
+export async function getMyOrders(): Promise<OrdersResponse> {
+  return apiFetch('/api/orders/mine', OrdersResponseSchema, {
+    headers: authHeaders(),
+  });
+}
+
+export interface FillsFilter {
+  market?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Get a page of the connected wallet's fills, newest first
+ * @param filter Market, inclusive time range in ms, page size, and the previous page's nextCursor
+ * @returns Fills from the wallet's side of each trade, and the cursor for the next page
+ */
+export async function getFills(filter: FillsFilter = {}): Promise<FillsResponse> {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const query = params.toString();
+  return apiFetch(`/api/fills${query ? `?${query}` : ''}`, FillsResponseSchema, {
+    headers: authHeaders(),
+  });
+}
+
+/**
+ * Get the connected wallet's profit and loss from its fills
+ * @param method Cost basis: oldest lots first, or their average price
+ * @returns Per-market and total PnL, and net PnL after each trade, oldest first
+ */
+export async function getPnl(method: CostBasisMethod = 'fifo'): Promise<PnlResponse> {
+  return apiFetch(`/api/pnl?method=${method}`, PnlResponseSchema, {
+    headers: authHeaders(),
+  });
+}
+
+/**
+ * Get a market's OHLCV candles for an interval, oldest first
+ * @param market Market id
+ * @param interval Candle width
+ * @param limit Maximum number of (most recent) candles
+ * @returns Candles for intervals that saw trades; the last one may still be open
+ */
+export async function getCandles(
+  market: string,
+  interval: CandleInterval,
+  limit?: number
+): Promise<CandlesResponse> {
+  const params = new URLSearchParams({ market, interval });
+  if (limit !== undefined) params.set('limit', String(limit));
+  return apiFetch(`/api/candles?${params}`, CandlesResponseSchema);
 }
 
 // ============================================================================
@@ -167,23 +374,123 @@ export async function getOrders(): Promise<OrdersResponse> {
 // ============================================================================
 
 /**
- * Get token balance for the connected wallet
- * @returns Balance information
+ * Get the connected wallet's private and public token balances
+ * @param tokenAddress Token to read (defaults to the market token)
+ * @returns Balance information, formatted with the token's decimals
  */
-export async function getBalance(): Promise<Balance> {
-  return apiFetch<Balance>('/api/balance');
+export async function getBalance(tokenAddress?: string): Promise<Balance> {
+  if (tokenAddress) {
+    return apiFetch('/api/balance', BalanceResponseSchema, {
+      method: 'POST',
+      headers: authHeaders(),
+      body: JSON.stringify({ tokenAddress }),
+    });
+  }
+  return apiFetch('/api/balance', BalanceResponseSchema, {
+    headers: authHeaders(),
+  });
 }
 
 /**
- * Transfer tokens to another address
+ * Transfer tokens from the connected wallet to another address
  * @param to Recipient address
  * @param amount Amount to transfer
+ * @param visibility Move private notes or public balance
+ * @returns Handle for the transaction, which is still being proven and sent
  */
-export async function transferTokens(to: string, amount: string): Promise<void> {
-  return apiFetch('/api/transfer', {
+export async function transferTokens(
+  to: string,
+  amount: string,
+  visibility: TransferVisibility
+): Promise<TransferResponse> {
+  return apiFetch('/api/transfer', TransferResponseSchema, {
     method: 'POST',
-    body: JSON.stringify({ to, amount }),
+    headers: authHeaders(),
+    body: JSON.stringify({ to, amount, visibility }),
+  });
+}
+
+// ============================================================================
+// Escrow API
+// ============================================================================
+
+/**
+ * Get the connected wallet's escrowed funds and recent deposits and withdrawals
+ * @returns Escrowed, locked and available amounts of every token
+ */
+export async function getEscrow(): Promise<EscrowResponse> {
+  return apiFetch('/api/escrow', EscrowResponseSchema, {
+    headers: authHeaders(),
+  });
+}
+
+/**
+ * Move private funds from the connected wallet into escrow
+ * @param token Token symbol
+ * @param amount Amount to deposit
+ * @returns Handle for the transfer; the deposit is credited once it is mined
+ */
+export async function depositToEscrow(token: TokenSymbol, amount: string): Promise<EscrowTransferResponse> {
+  return apiFetch('/api/escrow/deposit', EscrowTransferResponseSchema, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({ token, amount }),
+  });
+}
+
+/**
+ * Send available escrowed funds back to the connected wallet
+ * @param token Token symbol
+ * @param amount Amount to withdraw
+ * @returns Handle for the withdrawal, which is refunded to escrow if it fails
+ */
+export async function withdrawFromEscrow(token: TokenSymbol, amount: string): Promise<EscrowTransferResponse> {
+  return apiFetch('/api/escrow/withdraw', EscrowTransferResponseSchema, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({ token, amount }),
+  });
+}
+
+// ============================================================================
+// Transaction API
+// ============================================================================
+
+/**
+ * Get the current status of a transaction
+ * @param id Transaction handle id
+ * @param token Session of the account that sent it (defaults to the active one)
+ * @returns The transaction, with its hash and block once known
+ */
+export async function getTransaction(id: string, token = sessionToken): Promise<Transaction> {
+  const response = await apiFetch(`/api/transactions/${encodeURIComponent(id)}`, TransactionResponseSchema, {
+    headers: authHeaders(token),
+  });
+  return response.transaction;
+}
+
+/**
+ * Get the connected wallet's recent transactions
+ * @returns Transactions, newest first
+ */
+export async function getTransactions(): Promise<Transaction[]> {
+  const response = await apiFetch('/api/transactions', TransactionsResponseSchema, {
+    headers: authHeaders(),
+  });
+  return response.transactions;
+}
+
+/**
+ * Get the proving job behind a transaction
+ * @param id Job id, from the transaction's jobId
+ * @param token Session of the account that queued it (defaults to the active one)
+ * @returns The job, with its queue position while it waits
+ */
+export async function getJob(id: string, token = sessionToken): Promise<Job> {
+  const response = await apiFetch(`/api/jobs/${encodeURIComponent(id)}`, JobResponseSchema, {
+    headers: authHeaders(token),
   });
+  return response.job;
 }
 
 // ============================================================================
@@ -0,0 +1,75 @@
+// Escrow Balances
+// The connected wallet's funds in the escrow contract, shared by every panel
+// that shows or spends them. Panels reload it after anything that moves
+// escrowed funds: deposits, withdrawals, and orders being placed or filled.
+
+import { useSyncExternalStore } from 'react';
+import { getEscrow, type EscrowBalance, type EscrowMovement } from './api';
+
+export interface EscrowState {
+  // Account the balances belong to, so a switch never shows another's funds
+  address: string | null;
+  balances: EscrowBalance[];
+  movements: EscrowMovement[];
+  error: string | null;
+}
+
+const INITIAL_STATE: EscrowState = {
+  address: null,
+  balances: [],
+  movements: [],
+  error: null,
+};
+
+let state: EscrowState = INITIAL_STATE;
+const listeners = new Set<() => void>();
+
+function setState(next: EscrowState) {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return state;
+}
+
+/**
+ * Reload the escrow balances of the connected wallet
+ * @param address Address of the connected wallet
+ */
+export async function refreshEscrow(address: string): Promise<void> {
+  try {
+    const { balances, movements } = await getEscrow();
+    setState({ address, balances, movements, error: null });
+  } catch (err) {
+    console.error('Failed to load escrow balances:', err);
+    setState({ ...state, error: 'Failed to load escrow balances: ' + (err as Error).message });
+  }
+}
+
+/**
+ * Follow the escrow balances of an account
+ * @param address Connected wallet, or null when disconnected
+ * @returns Balances loaded for that account; empty until the first refresh
+ */
+export function useEscrow(address: string | null): EscrowState {
+  const current = useSyncExternalStore(subscribe, getSnapshot, () => INITIAL_STATE);
+  return current.address === address ? current : INITIAL_STATE;
+}
+
+/**
+ * Escrowed balance of one token
+ * @param escrow State from useEscrow
+ * @param token Token symbol
+ * @returns The balance, or null before it has loaded
+ */
+export function escrowBalanceOf(escrow: EscrowState, token: string): EscrowBalance | null {
+  return escrow.balances.find((balance) => balance.token === token) ?? null;
+}
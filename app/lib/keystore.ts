@@ -0,0 +1,216 @@
+// Encrypted Keystore
+// Protects Aztec secret keys at rest. A key derived from the user's
+// passphrase (PBKDF2-SHA256) encrypts each secret with AES-256-GCM, so the
+// blob in localStorage or an exported file is useless without the passphrase.
+// One keystore holds every account, all under the same passphrase.
+
+import { WALLET_CONFIG } from '../config';
+
+export interface KeystoreEntry {
+  label: string;
+  address: string;
+  accountSalt: string;
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  kdfSalt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface Keystore {
+  version: 2;
+  accounts: KeystoreEntry[];
+}
+
+// Single-account format written before multi-account support
+interface KeystoreV1 {
+  version: 1;
+  address: string;
+  kdf: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+const KEYSTORE_STORAGE_KEY = 'aztec_keystore';
+
+// Accounts created before salts were configurable all used this one
+const LEGACY_ACCOUNT_SALT = '0x1234';
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt a secret key under a passphrase
+ * @param secretKey The Aztec secret key (hex string)
+ * @param passphrase User passphrase
+ * @param account Public account details, stored in the clear so a locked wallet can be identified
+ * @returns Keystore entry safe to persist or export
+ */
+export async function encryptSecret(
+  secretKey: string,
+  passphrase: string,
+  account: { label: string; address: string; accountSalt: string }
+): Promise<KeystoreEntry> {
+  const kdfSalt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const iterations = WALLET_CONFIG.keystoreIterations;
+  const key = await deriveKey(passphrase, kdfSalt, iterations);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(secretKey)
+  );
+
+  return {
+    ...account,
+    kdf: 'pbkdf2-sha256',
+    iterations,
+    kdfSalt: toBase64(kdfSalt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt the secret key from a keystore entry
+ * @param entry Keystore entry
+ * @param passphrase User passphrase
+ * @returns The secret key
+ * @throws When the passphrase is wrong or the entry was tampered with
+ */
+export async function decryptSecret(entry: KeystoreEntry, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, fromBase64(entry.kdfSalt), entry.iterations);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(entry.iv) },
+      key,
+      fromBase64(entry.ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM authentication fails for both a wrong key and a modified blob
+    throw new Error('Incorrect passphrase or corrupted keystore');
+  }
+}
+
+function isEntry(value: Partial<KeystoreEntry>): value is KeystoreEntry {
+  const isString = (field: unknown) => typeof field === 'string' && field.length > 0;
+  return (
+    value.kdf === 'pbkdf2-sha256' &&
+    Number.isInteger(value.iterations) &&
+    typeof value.label === 'string' &&
+    isString(value.address) &&
+    isString(value.accountSalt) &&
+    isString(value.kdfSalt) &&
+    isString(value.iv) &&
+    isString(value.ciphertext)
+  );
+}
+
+/**
+ * Validate untrusted JSON (e.g. an imported file) as a keystore,
+ * upgrading single-account keystores to the current format
+ * @param text File contents
+ * @returns The parsed keystore
+ */
+export function parseKeystore(text: string): Keystore {
+  let data: Partial<Keystore> | Partial<KeystoreV1>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Keystore file is not valid JSON');
+  }
+
+  if (data.version === 1) {
+    const legacy = data as KeystoreV1;
+    data = {
+      version: 2,
+      accounts: [{
+        label: 'Account 1',
+        address: legacy.address,
+        accountSalt: LEGACY_ACCOUNT_SALT,
+        kdf: legacy.kdf,
+        iterations: legacy.iterations,
+        kdfSalt: legacy.salt,
+        iv: legacy.iv,
+        ciphertext: legacy.ciphertext,
+      }],
+    };
+  }
+
+  const keystore = data as Partial<Keystore>;
+  if (
+    keystore.version !== 2 ||
+    !Array.isArray(keystore.accounts) ||
+    keystore.accounts.length === 0 ||
+    !keystore.accounts.every(isEntry)
+  ) {
+    throw new Error('Unrecognized keystore format');
+  }
+
+  return keystore as Keystore;
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+export function loadKeystore(): Keystore | null {
+  const raw = localStorage.getItem(KEYSTORE_STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    return parseKeystore(raw);
+  } catch (err) {
+    console.error('Ignoring invalid stored keystore:', err);
+    return null;
+  }
+}
+
+export function saveKeystore(keystore: Keystore): void {
+  localStorage.setItem(KEYSTORE_STORAGE_KEY, JSON.stringify(keystore));
+}
+
+export function clearKeystore(): void {
+  localStorage.removeItem(KEYSTORE_STORAGE_KEY);
+}
+
+/**
+ * Download the keystore as a JSON file
+ */
+export function exportKeystore(keystore: Keystore): void {
+  const blob = new Blob([JSON.stringify(keystore, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `aztec-keystore-${keystore.accounts.length}-accounts.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
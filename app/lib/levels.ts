@@ -0,0 +1,61 @@
+// Order Book Levels
+// Groups price levels into coarser buckets for display and formats prices
+// and amounts to a market's precision. Bids round down and asks round up,
+// so grouping never makes the two sides appear to cross.
+
+import type { BookLevel } from './marketStream';
+
+export interface GroupedLevel {
+  price: number;
+  amount: number;
+  count: number;
+  total: number;
+}
+
+/**
+ * Decimal places needed to write a step such as 0.01 or 10
+ * @param step Grouping step
+ */
+export function stepDecimals(step: number): number {
+  const [, fraction = ''] = String(step).split('.');
+  return fraction.length;
+}
+
+/**
+ * Merge levels that fall into the same price bucket
+ * @param levels One side of the book, best price first
+ * @param step Bucket width
+ * @param isBid Bids round down to the bucket, asks round up
+ * @returns Grouped levels, best price first, with summed amount, order count and notional
+ */
+export function groupLevels(levels: BookLevel[], step: number, isBid: boolean): GroupedLevel[] {
+  const decimals = stepDecimals(step);
+  const groups: GroupedLevel[] = [];
+
+  for (const level of levels) {
+    const price = parseFloat(level.price);
+    const amount = parseFloat(level.amount);
+    // Work in whole steps and nudge by a hair so float error cannot push an exact multiple into the next bucket
+    const steps = isBid ? Math.floor(price / step + 1e-9) : Math.ceil(price / step - 1e-9);
+    const bucket = Number((steps * step).toFixed(decimals));
+
+    const last = groups[groups.length - 1];
+    if (last && last.price === bucket) {
+      last.amount += amount;
+      last.count += level.count;
+      last.total += amount * price;
+    } else {
+      groups.push({ price: bucket, amount, count: level.count, total: amount * price });
+    }
+  }
+  return groups;
+}
+
+/**
+ * Format a number to a fixed number of decimals with thousands separators
+ * @param value Number to format
+ * @param decimals Decimal places to show
+ */
+export function formatFixed(value: number, decimals: number): string {
+  return value.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
@@ -0,0 +1,193 @@
+// Market Stream Client
+// Subscribes to the backend's server-sent events feed for one market and
+// keeps a local copy of its order book, recent trades and the subscriber's
+// own orders in that market.
+
+import { useSyncExternalStore } from 'react';
+import { API_URL, type Order, type BookLevel, type Trade } from './api';
+import { getAccount } from './accounts';
+import {
+  parse,
+  StreamSnapshotEvent,
+  StreamLevelEvent,
+  StreamTradeEvent,
+  StreamRevertEvent,
+  StreamOrderEvent,
+  type Infer,
+} from '../../shared/contract.mjs';
+
+export type { BookLevel, Trade };
+
+export interface MarketState {
+  connected: boolean;
+  bids: BookLevel[];
+  asks: BookLevel[];
+  trades: Trade[];
+  orders: Order[];
+}
+
+type LevelDelta = Infer<typeof StreamLevelEvent>;
+
+const RECENT_TRADES_LIMIT = 50;
+
+const INITIAL_STATE: MarketState = {
+  connected: false,
+  bids: [],
+  asks: [],
+  trades: [],
+  orders: [],
+};
+
+function applyLevel(levels: BookLevel[], delta: LevelDelta, descending: boolean): BookLevel[] {
+  const rest = levels.filter((level) => level.price !== delta.price);
+  if (delta.action === 'remove') {
+    return rest;
+  }
+
+  const next = [...rest, { price: delta.price, amount: delta.amount, count: delta.count }];
+  next.sort((a, b) =>
+    descending
+      ? parseFloat(b.price) - parseFloat(a.price)
+      : parseFloat(a.price) - parseFloat(b.price)
+  );
+  return next;
+}
+
+function upsertOrder(orders: Order[], order: Order): Order[] {
+  const index = orders.findIndex((existing) => existing.id === order.id);
+  if (index === -1) {
+    return [order, ...orders];
+  }
+  const next = [...orders];
+  next[index] = order;
+  return next;
+}
+
+/**
+ * One shared EventSource per owner and market, reference counted across subscribers.
+ * The server sends a fresh snapshot on every (re)connect, and a gap in the
+ * delta sequence forces a reconnect so the local book never drifts.
+ */
+class MarketChannel {
+  private state: MarketState = INITIAL_STATE;
+  private listeners = new Set<() => void>();
+  private source: EventSource | null = null;
+  private sequence = 0;
+
+  constructor(private owner: string | null, private market: string) {}
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    if (!this.source) {
+      this.open();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.close();
+      }
+    };
+  };
+
+  getSnapshot = () => this.state;
+
+  private setState(update: Partial<MarketState>) {
+    this.state = { ...this.state, ...update };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private open() {
+    // Each owner streams with its own session, whichever account is active
+    const token = this.owner ? getAccount(this.owner)?.sessionToken : null;
+    const params = new URLSearchParams({ market: this.market });
+    if (token) params.set('session', token);
+    const source = new EventSource(`${API_URL}/api/stream?${params}`);
+    this.source = source;
+
+    source.onerror = () => {
+      // EventSource retries on its own; the next snapshot resyncs the book
+      this.setState({ connected: false });
+    };
+
+    source.addEventListener('snapshot', (event) => {
+      const data = parse(StreamSnapshotEvent, JSON.parse((event as MessageEvent).data));
+      this.sequence = data.seq;
+      this.setState({
+        connected: true,
+        bids: data.bids,
+        asks: data.asks,
+        trades: data.trades,
+        orders: data.orders,
+      });
+    });
+
+    source.addEventListener('level', (event) => {
+      const delta = parse(StreamLevelEvent, JSON.parse((event as MessageEvent).data));
+      if (!this.advance(delta.seq)) return;
+      if (delta.side === 'bid') {
+        this.setState({ bids: applyLevel(this.state.bids, delta, true) });
+      } else {
+        this.setState({ asks: applyLevel(this.state.asks, delta, false) });
+      }
+    });
+
+    source.addEventListener('trade', (event) => {
+      const { seq, ...trade } = parse(StreamTradeEvent, JSON.parse((event as MessageEvent).data));
+      if (!this.advance(seq)) return;
+      this.setState({ trades: [trade, ...this.state.trades].slice(0, RECENT_TRADES_LIMIT) });
+    });
+
+    source.addEventListener('revert', (event) => {
+      const { seq, id } = parse(StreamRevertEvent, JSON.parse((event as MessageEvent).data));
+      if (!this.advance(seq)) return;
+      this.setState({ trades: this.state.trades.filter((trade) => trade.id !== id) });
+    });
+
+    source.addEventListener('order', (event) => {
+      const { order } = parse(StreamOrderEvent, JSON.parse((event as MessageEvent).data));
+      this.setState({ orders: upsertOrder(this.state.orders, order) });
+    });
+  }
+
+  private close() {
+    this.source?.close();
+    this.source = null;
+    this.state = INITIAL_STATE;
+  }
+
+  // Returns false (and resyncs) when a delta arrives out of sequence
+  private advance(seq: number): boolean {
+    if (seq !== this.sequence + 1) {
+      console.warn(`Market stream gap (expected ${this.sequence + 1}, got ${seq}), resyncing`);
+      this.close();
+      this.setState({ connected: false });
+      this.open();
+      return false;
+    }
+    this.sequence = seq;
+    return true;
+  }
+}
+
+const channels = new Map<string, MarketChannel>();
+
+function getChannel(owner: string | null, market: string): MarketChannel {
+  const key = `${owner ?? ''}:${market}`;
+  let channel = channels.get(key);
+  if (!channel) {
+    channel = new MarketChannel(owner, market);
+    channels.set(key, channel);
+  }
+  return channel;
+}
+
+/**
+ * Subscribe to live order book data
+ * @param owner Connected address whose own orders should be tracked, if any
+ * @param market Market id to stream
+ * @returns Current market state, updated as the stream delivers events
+ */
+export function useMarketStream(owner: string | null, market: string): MarketState {
+  const channel = getChannel(owner, market);
+  return useSyncExternalStore(channel.subscribe, channel.getSnapshot, () => INITIAL_STATE);
+}
@@ -0,0 +1,83 @@
+// Selected Market
+// Which market from the shared registry the trading panels are scoped to.
+// The choice is remembered in localStorage; components follow it through
+// useMarket().
+
+import { useSyncExternalStore } from 'react';
+import {
+  MARKETS,
+  TOKENS,
+  DEFAULT_MARKET_ID,
+  getMarket,
+  decimalPlaces,
+  type Market,
+  type Token,
+} from '../../shared/markets.mjs';
+
+export interface MarketInfo extends Market {
+  baseToken: Token;
+  quoteToken: Token;
+  priceDecimals: number;
+  amountDecimals: number;
+}
+
+const MARKET_STORAGE_KEY = 'aztec_market';
+
+function describe(market: Market): MarketInfo {
+  return {
+    ...market,
+    baseToken: TOKENS[market.base as keyof typeof TOKENS],
+    quoteToken: TOKENS[market.quote as keyof typeof TOKENS],
+    priceDecimals: decimalPlaces(market.tickSize),
+    amountDecimals: decimalPlaces(market.lotSize),
+  };
+}
+
+export const MARKET_LIST: MarketInfo[] = MARKETS.map(describe);
+
+const DEFAULT_MARKET = MARKET_LIST.find((market) => market.id === DEFAULT_MARKET_ID)!;
+
+let selected: MarketInfo = DEFAULT_MARKET;
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return selected;
+}
+
+/**
+ * Scope the trading panels to another market
+ * @param id Market id from the registry
+ */
+export function selectMarket(id: string): void {
+  const market = MARKET_LIST.find((entry) => entry.id === id);
+  if (!market || market === selected) return;
+
+  selected = market;
+  localStorage.setItem(MARKET_STORAGE_KEY, id);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Reselect the market chosen in a previous visit, if it still exists
+ */
+export function restoreMarket(): void {
+  const id = localStorage.getItem(MARKET_STORAGE_KEY);
+  if (id && getMarket(id)) {
+    selectMarket(id);
+  }
+}
+
+/**
+ * Follow the selected market
+ * @returns The market with its tokens and display precision
+ */
+export function useMarket(): MarketInfo {
+  return useSyncExternalStore(subscribe, getSnapshot, () => DEFAULT_MARKET);
+}
@@ -0,0 +1,68 @@
+// Selected Network
+// Which network profile the app runs against. Each network has its own API
+// server, so the choice is read from localStorage before the first request
+// and switching reloads the app to reconnect sessions and streams.
+
+import { useSyncExternalStore } from 'react';
+import { NETWORKS, DEFAULT_NETWORK_ID, getNetwork, type NetworkProfile } from '../../shared/networks.mjs';
+import { API_URLS } from '../config';
+
+export { NETWORKS };
+export type { NetworkProfile };
+
+const NETWORK_STORAGE_KEY = 'aztec_network';
+const DEFAULT_API_URL = 'http://localhost:3001';
+
+const DEFAULT_NETWORK = getNetwork(DEFAULT_NETWORK_ID)!;
+
+function loadNetwork(): NetworkProfile {
+  if (typeof window === 'undefined') return DEFAULT_NETWORK;
+  return getNetwork(localStorage.getItem(NETWORK_STORAGE_KEY) ?? '') ?? DEFAULT_NETWORK;
+}
+
+const selected = loadNetwork();
+
+function subscribe() {
+  // The network only changes by reloading the app
+  return () => {};
+}
+
+function getSnapshot() {
+  return selected;
+}
+
+/**
+ * The network this page is running against, for code outside React
+ * @returns The selected network profile
+ */
+export function getSelectedNetwork(): NetworkProfile {
+  return selected;
+}
+
+/**
+ * API server for a network, configured per deployment
+ * @param network Network profile (defaults to the selected one)
+ * @returns Base URL of the network's API server
+ */
+export function getApiUrl(network: NetworkProfile = selected): string {
+  return API_URLS[network.id] || DEFAULT_API_URL;
+}
+
+/**
+ * Switch to another network and reload the app against its API server
+ * @param id Network id from shared/networks.mjs
+ */
+export function selectNetwork(id: string): void {
+  if (id === selected.id || !getNetwork(id)) return;
+
+  localStorage.setItem(NETWORK_STORAGE_KEY, id);
+  window.location.reload();
+}
+
+/**
+ * Follow the selected network
+ * @returns The selected network profile
+ */
+export function useNetwork(): NetworkProfile {
+  return useSyncExternalStore(subscribe, getSnapshot, () => DEFAULT_NETWORK);
+}
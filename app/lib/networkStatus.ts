@@ -0,0 +1,120 @@
+// Network Status
+// Polls the API health and block endpoints while anything is watching, and
+// derives one healthy / degraded / down state from the responses, the API
+// latency and whether the chain is still producing blocks.
+
+import { useSyncExternalStore } from 'react';
+import { getHealth, getBlockInfo } from './api';
+import { STATUS_CONFIG } from '../config';
+
+export type NetworkHealth = 'checking' | 'healthy' | 'degraded' | 'down';
+
+export interface NetworkStatus {
+  health: NetworkHealth;
+  nodeVersion: string | null;
+  latestBlock: number | null;
+  provenBlock: number | null;
+  latencyMs: number | null;
+  checkedAt: number | null;
+  // When the latest block number last went up
+  blockChangedAt: number | null;
+  stalled: boolean;
+  error: string | null;
+}
+
+const POLL_MS = STATUS_CONFIG.pollSeconds * 1000;
+const STALL_MS = STATUS_CONFIG.stallMinutes * 60 * 1000;
+
+const INITIAL_STATUS: NetworkStatus = {
+  health: 'checking',
+  nodeVersion: null,
+  latestBlock: null,
+  provenBlock: null,
+  latencyMs: null,
+  checkedAt: null,
+  blockChangedAt: null,
+  stalled: false,
+  error: null,
+};
+
+let status: NetworkStatus = INITIAL_STATUS;
+const listeners = new Set<() => void>();
+let timer: ReturnType<typeof setInterval> | null = null;
+
+function setStatus(next: NetworkStatus) {
+  status = next;
+  listeners.forEach((listener) => listener());
+}
+
+async function check() {
+  const startedAt = performance.now();
+  let health;
+  try {
+    health = await getHealth();
+  } catch (err) {
+    setStatus({ ...status, health: 'down', latencyMs: null, checkedAt: Date.now(), stalled: false, error: (err as Error).message });
+    return;
+  }
+  const latencyMs = Math.round(performance.now() - startedAt);
+  const now = Date.now();
+
+  let block;
+  try {
+    block = await getBlockInfo();
+  } catch (err) {
+    setStatus({
+      ...status,
+      health: 'degraded',
+      nodeVersion: health.nodeVersion,
+      latencyMs,
+      checkedAt: now,
+      stalled: false,
+      error: 'Block info unavailable: ' + (err as Error).message,
+    });
+    return;
+  }
+
+  const advanced = block.blockNumber !== status.latestBlock;
+  const blockChangedAt = advanced || status.blockChangedAt === null ? now : status.blockChangedAt;
+  // The mock chain only mines when a transaction is sent, so a quiet mock chain is not stalled
+  const stalled = health.adapter !== 'mock' && now - blockChangedAt > STALL_MS;
+
+  setStatus({
+    health: health.status === 'ok' && !stalled ? 'healthy' : 'degraded',
+    nodeVersion: health.nodeVersion,
+    latestBlock: block.blockNumber,
+    provenBlock: block.provenBlockNumber,
+    latencyMs,
+    checkedAt: now,
+    blockChangedAt,
+    stalled,
+    error: health.status === 'ok' ? null : 'The API cannot reach the node',
+  });
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  if (!timer) {
+    check();
+    timer = setInterval(check, POLL_MS);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+}
+
+function getSnapshot() {
+  return status;
+}
+
+/**
+ * Follow the health of the API and the chain behind it, polling while mounted
+ * @returns Latest status, refreshed every STATUS_CONFIG.pollSeconds
+ */
+export function useNetworkStatus(): NetworkStatus {
+  return useSyncExternalStore(subscribe, getSnapshot, () => INITIAL_STATUS);
+}
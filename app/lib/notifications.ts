@@ -0,0 +1,168 @@
+// Notifications
+// App-wide toasts for the results of user actions. Chain transactions are
+// followed by polling their handle until they are mined or fail, so the
+// result is reported wherever the user has navigated in the meantime. While
+// a transaction waits for a prover its toast shows the queue position.
+
+import { useSyncExternalStore } from 'react';
+import { getJob, getTransaction, type Transaction } from './api';
+
+export type NotificationTone = 'pending' | 'success' | 'error';
+
+export interface Notification {
+  id: string;
+  title: string;
+  message: string;
+  tone: NotificationTone;
+  transaction: Transaction | null;
+  createdAt: number;
+}
+
+const POLL_MS = 2000;
+// Settled notifications dismiss themselves after this long
+const AUTO_DISMISS_MS = 10000;
+// Polling gives up on a transaction after this many consecutive errors
+const MAX_POLL_ERRORS = 5;
+
+const INITIAL_STATE: Notification[] = [];
+
+let notifications: Notification[] = INITIAL_STATE;
+const listeners = new Set<() => void>();
+let sequence = 0;
+// Transactions being polled, so each is followed once however often it is tracked
+const following = new Map<string, Promise<Transaction>>();
+
+function setNotifications(next: Notification[]) {
+  notifications = next;
+  listeners.forEach((listener) => listener());
+}
+
+function update(id: string, changes: Partial<Notification>) {
+  setNotifications(notifications.map((notification) =>
+    notification.id === id ? { ...notification, ...changes } : notification
+  ));
+}
+
+// Toast message for a transaction still waiting in the proving queue
+async function queueMessage(transaction: Transaction, token: string | null): Promise<string> {
+  if (transaction.jobId === null) return transaction.description;
+  const { position } = await getJob(transaction.jobId, token);
+  if (position === null) return transaction.description;
+  return `${transaction.description} · ${position === 0 ? 'next in line' : `${position} ahead in queue`}`;
+}
+
+function scheduleDismiss(id: string) {
+  setTimeout(() => dismiss(id), AUTO_DISMISS_MS);
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getSnapshot() {
+  return notifications;
+}
+
+/**
+ * Show the outcome of an action that completes immediately
+ * @param title Short summary of the action
+ * @param message Result details
+ * @param tone 'success' or 'error'
+ */
+export function notify(title: string, message: string, tone: Exclude<NotificationTone, 'pending'> = 'success'): void {
+  const id = `notification_${++sequence}`;
+  setNotifications([
+    { id, title, message, tone, transaction: null, createdAt: Date.now() },
+    ...notifications,
+  ]);
+  scheduleDismiss(id);
+}
+
+/**
+ * Follow a transaction until it is mined or fails, keeping a toast up to date
+ * @param title Short summary of the action
+ * @param transaction Handle returned when the transaction was submitted
+ * @param token Session of the account that sent it; polling keeps using it after account switches
+ * @param onProgress Called with every status change, including the final one
+ * @returns The settled transaction
+ */
+export function trackTransaction(
+  title: string,
+  transaction: Transaction,
+  token: string | null,
+  onProgress?: (transaction: Transaction) => void
+): Promise<Transaction> {
+  let followed = following.get(transaction.id);
+  if (!followed) {
+    followed = follow(title, transaction, token, onProgress).finally(() => following.delete(transaction.id));
+    following.set(transaction.id, followed);
+  }
+  return followed;
+}
+
+async function follow(
+  title: string,
+  transaction: Transaction,
+  token: string | null,
+  onProgress?: (transaction: Transaction) => void
+): Promise<Transaction> {
+  const id = `notification_${++sequence}`;
+  setNotifications([
+    { id, title, message: transaction.description, tone: 'pending', transaction, createdAt: Date.now() },
+    ...notifications,
+  ]);
+
+  let current = transaction;
+  let errors = 0;
+  while (current.status !== 'mined' && current.status !== 'failed' && current.status !== 'confirmed') {
+    await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+    try {
+      const next = await getTransaction(current.id, token);
+      errors = 0;
+      if (next.status !== current.status) {
+        current = next;
+        update(id, { transaction: current, message: current.description });
+        onProgress?.(current);
+      }
+      if (current.status === 'queued') {
+        update(id, { message: await queueMessage(current, token) });
+      }
+    } catch (err) {
+      errors += 1;
+      console.error('Failed to poll transaction:', err);
+      if (errors >= MAX_POLL_ERRORS) {
+        update(id, { tone: 'error', message: 'Lost track of the transaction: ' + (err as Error).message });
+        scheduleDismiss(id);
+        return current;
+      }
+    }
+  }
+
+  // Nothing was sent for a confirmed action, and a fill found already settled reports no block
+  const succeeded = current.blockNumber === null ? current.description : `${current.description}: mined in block ${current.blockNumber}`;
+  update(id, current.status !== 'failed'
+    ? { tone: 'success', message: succeeded }
+    : { tone: 'error', message: `${current.description} failed: ${current.error}` });
+  scheduleDismiss(id);
+  return current;
+}
+
+/**
+ * Remove a notification
+ * @param id Notification id
+ */
+export function dismiss(id: string): void {
+  if (!notifications.some((notification) => notification.id === id)) return;
+  setNotifications(notifications.filter((notification) => notification.id !== id));
+}
+
+/**
+ * Follow the current notifications
+ * @returns Notifications, newest first
+ */
+export function useNotifications(): Notification[] {
+  return useSyncExternalStore(subscribe, getSnapshot, () => INITIAL_STATE);
+}
@@ -0,0 +1,78 @@
+// Price Impact Estimates
+// Walks the live order book to preview how a taker order would fill, and
+// derives the worst price the user is willing to accept from a slippage
+// tolerance. Estimates use floating point and are for display only; the
+// server matches in exact integer units.
+
+import type { BookLevel } from './marketStream';
+
+export interface FillEstimate {
+  filled: number;
+  averagePrice: number | null;
+  bestPrice: number | null;
+  worstPrice: number | null;
+  impactPercent: number;
+  fullyFilled: boolean;
+}
+
+const PRICE_DECIMALS = 6;
+
+/**
+ * Estimate how an order would fill against one side of the book
+ * @param levels Opposite side of the book, best price first
+ * @param amount Amount to fill
+ * @param isBuy True when taking asks, false when taking bids
+ * @param limitPrice Stop matching at levels beyond this price, if given
+ * @returns Filled size, average and extreme prices, and impact versus the best price
+ */
+export function estimateFill(
+  levels: BookLevel[],
+  amount: number,
+  isBuy: boolean,
+  limitPrice?: number
+): FillEstimate {
+  let filled = 0;
+  let cost = 0;
+  let worstPrice: number | null = null;
+
+  for (const level of levels) {
+    if (filled >= amount) break;
+    const price = parseFloat(level.price);
+    if (limitPrice !== undefined && (isBuy ? price > limitPrice : price < limitPrice)) break;
+
+    const size = Math.min(parseFloat(level.amount), amount - filled);
+    filled += size;
+    cost += size * price;
+    worstPrice = price;
+  }
+
+  const bestPrice = levels.length > 0 ? parseFloat(levels[0].price) : null;
+  const averagePrice = filled > 0 ? cost / filled : null;
+  const impactPercent = averagePrice !== null && bestPrice !== null
+    ? (Math.abs(averagePrice - bestPrice) / bestPrice) * 100
+    : 0;
+
+  return {
+    filled,
+    averagePrice,
+    bestPrice,
+    worstPrice,
+    impactPercent,
+    fullyFilled: amount > 0 && filled >= amount,
+  };
+}
+
+/**
+ * Worst price an order may fill at under a slippage tolerance. Buys round
+ * up and sells round down so the guard never rejects the reference price.
+ * @param reference Worst price the order is expected to fill at
+ * @param isBuy Order side
+ * @param slippagePercent Tolerance, e.g. 0.5 for 0.5%
+ * @returns Decimal string suitable for the API
+ */
+export function worstAcceptablePrice(reference: number, isBuy: boolean, slippagePercent: number): string {
+  const factor = 10 ** PRICE_DECIMALS;
+  const bound = reference * (1 + (isBuy ? slippagePercent : -slippagePercent) / 100);
+  const rounded = isBuy ? Math.ceil(bound * factor) / factor : Math.floor(bound * factor) / factor;
+  return Math.max(rounded, 1 / factor).toFixed(PRICE_DECIMALS);
+}
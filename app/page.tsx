@@ -4,13 +4,20 @@ import { useState, useRef } from 'react';
 import Header from './components/Header';
 import WalletConnect from './components/WalletConnect';
 import TradePanel from './components/TradePanel';
+import SendPanel from './components/SendPanel';
+import EscrowPanel from './components/EscrowPanel';
 import OrderBook from './components/OrderBook';
+import PriceChart from './components/PriceChart';
 import Portfolio from './components/Portfolio';
 import MobileTabs from './components/MobileTabs';
 import Footer from './components/Footer';
+import NotificationTray from './components/NotificationTray';
+import { useAccounts } from './lib/accounts';
+import { useNetwork } from './lib/network';
 
 export default function Home() {
-  const [address, setAddress] = useState<string | null>(null);
+  const { activeAddress: address } = useAccounts();
+  const network = useNetwork();
   const [mobileTab, setMobileTab] = useState<'trade' | 'orders' | 'portfolio'>('orders');
   const walletSectionRef = useRef<HTMLDivElement>(null);
 
@@ -23,7 +30,7 @@ export default function Home() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-purple-950 to-gray-950">
       {/* Header */}
-      <Header address={address} onConnectClick={handleConnectClick} />
+      <Header onConnectClick={handleConnectClick} />
 
       {/* Mobile Tabs */}
       <MobileTabs activeTab={mobileTab} onTabChange={setMobileTab} />
@@ -32,16 +39,19 @@ export default function Home() {
       <main className="container mx-auto px-4 lg:px-6 py-6 lg:py-8">
         {/* Desktop: 3-Column Grid */}
         <div className="hidden lg:grid lg:grid-cols-12 gap-6">
-          {/* Left Column - Trade Panel (Wallet + Buy/Sell Form) */}
+          {/* Left Column - Trade Panel (Wallet + Escrow + Buy/Sell Form) */}
           <div className="lg:col-span-3 space-y-6">
             <div ref={walletSectionRef}>
-              <WalletConnect onWalletChange={setAddress} />
+              <WalletConnect />
             </div>
+            <EscrowPanel address={address} />
             <TradePanel address={address} />
+            <SendPanel address={address} />
           </div>
 
           {/* Center Column - Order Book (Larger, Main Focus) */}
-          <div className="lg:col-span-6">
+          <div className="lg:col-span-6 space-y-6">
+            <PriceChart address={address} />
             <OrderBook address={address} />
           </div>
 
@@ -56,14 +66,17 @@ export default function Home() {
           {mobileTab === 'trade' && (
             <div className="space-y-6">
               <div ref={walletSectionRef}>
-                <WalletConnect onWalletChange={setAddress} />
+                <WalletConnect />
               </div>
+              <EscrowPanel address={address} />
               <TradePanel address={address} />
+              <SendPanel address={address} />
             </div>
           )}
 
           {mobileTab === 'orders' && (
-            <div>
+            <div className="space-y-6">
+              <PriceChart address={address} />
               <OrderBook address={address} />
             </div>
           )}
@@ -105,11 +118,11 @@ export default function Home() {
             <p className="text-sm text-gray-400">
               Connected to{' '}
               <span className="text-purple-300 font-mono">
-                devnet.aztec-labs.com
+                {new URL(network.nodeUrl).host}
               </span>
               {' '}•{' '}
               <span className="text-gray-500">
-                Devnet v3.0.0-devnet.5
+                {network.chainId}
               </span>
             </p>
           </div>
@@ -118,6 +131,9 @@ export default function Home() {
 
       {/* Footer */}
       <Footer />
+
+      {/* Notifications stay mounted across mobile tabs */}
+      <NotificationTray />
     </div>
   );
 }
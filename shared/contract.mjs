@@ -0,0 +1,765 @@
+// API Contract
+// Request and response schemas shared by the Next.js client (app/lib/api.ts)
+// and the Express server (api/server.js). Each schema validates a value at
+// runtime, and TypeScript infers the matching static type via Infer<>.
+//
+// Wallet-scoped endpoints authenticate with `Authorization: Bearer <token>`,
+// using the session token returned by POST /api/wallet/connect.
+//
+// Every response is wrapped in an envelope:
+//   { success: true, ...payload }
+//   { success: false, error: { code, message, details? } }
+
+import { MARKETS, TOKENS } from './markets.mjs';
+
+/**
+ * @typedef {{ path: string, message: string }} Issue
+ */
+
+/**
+ * @template T
+ * @typedef {{ check: (value: unknown, path: string, issues: Issue[]) => T }} Schema
+ */
+
+/**
+ * @template S
+ * @typedef {S extends Schema<infer T> ? T : never} Infer
+ */
+
+/**
+ * Object type for a shape, with keys whose schema allows undefined made optional
+ * @template {Record<string, Schema<any>>} S
+ * @typedef {{ [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } & { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]> }} ObjectOf
+ */
+
+export const ERROR_CODES = {
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  FORBIDDEN: 'FORBIDDEN',
+  NOT_FOUND: 'NOT_FOUND',
+  CONFLICT: 'CONFLICT',
+  NODE_UNAVAILABLE: 'NODE_UNAVAILABLE',
+  INSUFFICIENT_BALANCE: 'INSUFFICIENT_BALANCE',
+  TX_REVERTED: 'TX_REVERTED',
+  TX_UNCONFIRMED: 'TX_UNCONFIRMED',
+  NOT_SUPPORTED: 'NOT_SUPPORTED',
+  ORDER_REJECTED: 'ORDER_REJECTED',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+};
+
+export class ValidationError extends Error {
+  /**
+   * @param {Issue[]} issues
+   */
+  constructor(issues) {
+    super(issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; '));
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validate a value against a schema
+ * @template T
+ * @param {Schema<T>} schema
+ * @param {unknown} value
+ * @returns {T} The validated value (objects are stripped of unknown keys)
+ * @throws {ValidationError} When the value does not match
+ */
+export function parse(schema, value) {
+  /** @type {Issue[]} */
+  const issues = [];
+  const result = schema.check(value, '', issues);
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return result;
+}
+
+// ============================================================================
+// Schema builders
+// ============================================================================
+
+/**
+ * @template T
+ * @param {string} expected Description used in error messages
+ * @param {(value: unknown) => boolean} test
+ * @returns {Schema<T>}
+ */
+function primitive(expected, test) {
+  return {
+    check(value, path, issues) {
+      if (!test(value)) {
+        issues.push({ path, message: `Expected ${expected}` });
+      }
+      return /** @type {T} */ (value);
+    },
+  };
+}
+
+/** @returns {Schema<string>} */
+export function string() {
+  return primitive('a string', (value) => typeof value === 'string');
+}
+
+/**
+ * @param {RegExp} regex
+ * @param {string} expected
+ * @returns {Schema<string>}
+ */
+export function pattern(regex, expected) {
+  return primitive(expected, (value) => typeof value === 'string' && regex.test(value));
+}
+
+/** @returns {Schema<number>} */
+export function number() {
+  return primitive('a number', (value) => typeof value === 'number' && Number.isFinite(value));
+}
+
+/** @returns {Schema<number>} */
+export function integer() {
+  return primitive('an integer', (value) => Number.isInteger(value));
+}
+
+/** @returns {Schema<boolean>} */
+export function boolean() {
+  return primitive('a boolean', (value) => typeof value === 'boolean');
+}
+
+/**
+ * @template {readonly (string | number)[]} V
+ * @param {V} values
+ * @returns {Schema<V[number]>}
+ */
+export function oneOf(...values) {
+  return primitive(`one of ${values.join(', ')}`, (value) => values.includes(/** @type {any} */ (value)));
+}
+
+/**
+ * @template T
+ * @param {Schema<T>} schema
+ * @returns {Schema<T | undefined>}
+ */
+export function optional(schema) {
+  return {
+    check: (value, path, issues) => (value === undefined ? undefined : schema.check(value, path, issues)),
+  };
+}
+
+/**
+ * @template T
+ * @param {Schema<T>} schema
+ * @returns {Schema<T | null>}
+ */
+export function nullable(schema) {
+  return {
+    check: (value, path, issues) => (value === null ? null : schema.check(value, path, issues)),
+  };
+}
+
+/**
+ * @template T
+ * @param {Schema<T>} item
+ * @returns {Schema<T[]>}
+ */
+export function array(item) {
+  return {
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: 'Expected an array' });
+        return /** @type {T[]} */ ([]);
+      }
+      return value.map((entry, index) => item.check(entry, `${path}[${index}]`, issues));
+    },
+  };
+}
+
+/**
+ * @template {Record<string, Schema<any>>} S
+ * @param {S} shape
+ * @returns {Schema<ObjectOf<S>>}
+ */
+export function object(shape) {
+  return {
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: 'Expected an object' });
+        return /** @type {any} */ ({});
+      }
+
+      /** @type {Record<string, unknown>} */
+      const result = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const field = /** @type {Record<string, unknown>} */ (value)[key];
+        const fieldPath = path ? `${path}.${key}` : key;
+        /** @type {Issue[]} */
+        const fieldIssues = [];
+        const checked = schema.check(field, fieldPath, fieldIssues);
+        if (field === undefined && fieldIssues.length > 0) {
+          issues.push({ path: fieldPath, message: 'Required' });
+          continue;
+        }
+        issues.push(...fieldIssues);
+        if (checked !== undefined) {
+          result[key] = checked;
+        }
+      }
+      return /** @type {any} */ (result);
+    },
+  };
+}
+
+// ============================================================================
+// Common fields
+// ============================================================================
+
+// Positive decimal string with at most 18 fractional digits
+export const Decimal = pattern(/^(?!0+(\.0+)?$)\d+(\.\d{1,18})?$/, 'a positive decimal string');
+
+// Non-negative decimal string, used for balances and filled amounts
+export const Amount = pattern(/^\d+(\.\d{1,18})?$/, 'a decimal string');
+
+// Profit and loss can be negative, and so can a position that sold more than it bought
+export const SignedAmount = pattern(/^-?\d+(\.\d{1,18})?$/, 'a signed decimal string');
+
+export const Address = pattern(/^0x[0-9a-fA-F]{64}$/, 'an Aztec address (0x + 64 hex chars)');
+
+export const SecretKey = pattern(/^0x[0-9a-fA-F]{1,64}$/, 'a hex secret key (0x + up to 64 hex chars)');
+
+export const Salt = pattern(/^0x[0-9a-fA-F]{1,64}$/, 'a hex salt (0x + up to 64 hex chars)');
+
+// Salt used to derive Schnorr account addresses when none is given
+export const DEFAULT_ACCOUNT_SALT = '0x1234';
+
+export const Side = oneOf('buy', 'sell');
+
+// Id of a market in shared/markets.mjs
+export const MarketId = oneOf(...MARKETS.map((market) => market.id));
+
+// Symbol of a token in shared/markets.mjs
+export const TokenSymbol = oneOf(...Object.keys(TOKENS));
+
+// Whole number carried in a query string, such as a millisecond timestamp
+export const IntegerString = pattern(/^\d+$/, 'a non-negative integer');
+
+// ============================================================================
+// Domain objects
+// ============================================================================
+
+export const ORDER_STATUS = {
+  OPEN: 0,
+  FILLED: 1,
+  CANCELLED: 2,
+};
+
+// limit: rests any remainder; market: sweeps the book with no price limit;
+// ioc: matches what it can at its price and cancels the rest; fok: fills in
+// full immediately or is rejected; post_only: rejected if it would match
+export const ORDER_TYPES = /** @type {const} */ ({
+  LIMIT: 'limit',
+  MARKET: 'market',
+  IOC: 'ioc',
+  FOK: 'fok',
+  POST_ONLY: 'post_only',
+});
+
+export const CANDLE_INTERVALS = /** @type {const} */ (['1m', '5m', '1h', '1d']);
+
+// Chain transactions sent for a wallet wait in the proving queue, then move
+// simulating -> proving -> sent -> mined, or to failed from any step. Orders
+// and cancels that send nothing on chain are confirmed straight away.
+export const TX_STATUS = /** @type {const} */ ({
+  QUEUED: 'queued',
+  SIMULATING: 'simulating',
+  PROVING: 'proving',
+  SENT: 'sent',
+  MINED: 'mined',
+  FAILED: 'failed',
+  CONFIRMED: 'confirmed',
+});
+
+export const TX_KINDS = /** @type {const} */ ({
+  TRANSFER: 'transfer',
+  DEPOSIT: 'deposit',
+  WITHDRAW: 'withdraw',
+  SETTLEMENT: 'settlement',
+  ORDER: 'order',
+  CANCEL: 'cancel',
+});
+
+// Fills settle on chain after matching. A failed settlement is undone off
+// chain: both orders get the amount back. Fills recorded before settlement
+// existed have no status.
+export const SETTLEMENT_STATUS = /** @type {const} */ ({
+  PENDING: 'pending',
+  SETTLED: 'settled',
+  FAILED: 'failed',
+});
+
+// Escrow deposits are credited once their transfer mines; withdrawals are
+// debited when requested and refunded if their transaction fails
+export const ESCROW_STATUS = /** @type {const} */ ({
+  PENDING: 'pending',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+});
+
+// Proving jobs wait queued (again between retries), run, then complete or fail
+export const JOB_STATUS = /** @type {const} */ ({
+  QUEUED: 'queued',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+});
+
+// How the cost of a position is measured when part of it closes: against
+// the oldest open lots first, or against the average price of all of them
+export const COST_BASIS_METHODS = /** @type {const} */ ({
+  FIFO: 'fifo',
+  AVERAGE: 'average',
+});
+
+export const CandleInterval = oneOf(...CANDLE_INTERVALS);
+
+export const OrderType = oneOf(ORDER_TYPES.LIMIT, ORDER_TYPES.MARKET, ORDER_TYPES.IOC, ORDER_TYPES.FOK, ORDER_TYPES.POST_ONLY);
+
+// Market orders record the price of their last fill
+export const OrderSchema = object({
+  id: string(),
+  market: MarketId,
+  owner: Address,
+  type: OrderType,
+  isBuy: boolean(),
+  amount: Amount,
+  price: Amount,
+  filled: Amount,
+  status: oneOf(ORDER_STATUS.OPEN, ORDER_STATUS.FILLED, ORDER_STATUS.CANCELLED),
+  createdAt: integer(),
+  updatedAt: integer(),
+});
+
+export const FillSchema = object({
+  id: string(),
+  market: MarketId,
+  makerOrderId: string(),
+  takerOrderId: string(),
+  maker: Address,
+  taker: Address,
+  isBuy: boolean(),
+  price: Amount,
+  amount: Amount,
+  makerFee: Amount,
+  takerFee: Amount,
+  timestamp: integer(),
+  settlement: nullable(oneOf(...Object.values(SETTLEMENT_STATUS))),
+  settlementTxHash: nullable(string()),
+  settlementError: nullable(string()),
+});
+
+// A fill seen from one participant: `isBuy` stays the taker's side, while
+// `side` and `fee` are the participant's own
+export const AccountFillSchema = object({
+  id: string(),
+  market: MarketId,
+  makerOrderId: string(),
+  takerOrderId: string(),
+  maker: Address,
+  taker: Address,
+  isBuy: boolean(),
+  price: Amount,
+  amount: Amount,
+  makerFee: Amount,
+  takerFee: Amount,
+  timestamp: integer(),
+  settlement: nullable(oneOf(...Object.values(SETTLEMENT_STATUS))),
+  settlementTxHash: nullable(string()),
+  settlementError: nullable(string()),
+  role: oneOf('maker', 'taker'),
+  side: Side,
+  fee: Amount,
+});
+
+// OHLCV aggregate of the trades in one interval; `time` is its start (ms)
+export const CandleSchema = object({
+  time: integer(),
+  open: Amount,
+  high: Amount,
+  low: Amount,
+  close: Amount,
+  volume: Amount,
+  notional: Amount,
+  trades: integer(),
+});
+
+export const BookLevelSchema = object({
+  price: Amount,
+  amount: Amount,
+  count: integer(),
+});
+
+export const TradeSchema = object({
+  id: string(),
+  price: Amount,
+  amount: Amount,
+  isBuy: boolean(),
+  timestamp: integer(),
+});
+
+// jobId is null for orders and cancels that wait on no job of their own
+export const TransactionSchema = object({
+  id: string(),
+  kind: oneOf(...Object.values(TX_KINDS)),
+  status: oneOf(...Object.values(TX_STATUS)),
+  description: string(),
+  jobId: nullable(string()),
+  txHash: nullable(string()),
+  blockNumber: nullable(integer()),
+  error: nullable(string()),
+  createdAt: integer(),
+  updatedAt: integer(),
+});
+
+// position counts the queued jobs that start first (0 = next); null once running
+export const JobSchema = object({
+  id: string(),
+  kind: string(),
+  status: oneOf(...Object.values(JOB_STATUS)),
+  position: nullable(integer()),
+  attempts: integer(),
+  queuedAt: integer(),
+  startedAt: nullable(integer()),
+  finishedAt: nullable(integer()),
+  elapsedMs: integer(),
+  error: nullable(string()),
+});
+
+// Funds held for one account in the escrow contract. `locked` is reserved by
+// open orders; `available` is what new orders and withdrawals may use.
+export const EscrowBalanceSchema = object({
+  token: TokenSymbol,
+  tokenAddress: Address,
+  escrowed: Amount,
+  locked: Amount,
+  available: Amount,
+});
+
+export const EscrowMovementSchema = object({
+  id: string(),
+  kind: oneOf(TX_KINDS.DEPOSIT, TX_KINDS.WITHDRAW),
+  token: TokenSymbol,
+  amount: Amount,
+  status: oneOf(...Object.values(ESCROW_STATUS)),
+  transactionId: nullable(string()),
+  txHash: nullable(string()),
+  error: nullable(string()),
+  createdAt: integer(),
+  updatedAt: integer(),
+});
+
+// An account's trading result in one market's base token, in quote token
+// terms. `position` is signed: negative when more was sold than bought.
+// Unrealized PnL marks the open position to the market's last trade price.
+export const PnlAssetSchema = object({
+  market: MarketId,
+  token: TokenSymbol,
+  quoteToken: TokenSymbol,
+  position: SignedAmount,
+  averageCost: nullable(Amount),
+  markPrice: Amount,
+  realizedPnl: SignedAmount,
+  unrealizedPnl: SignedAmount,
+  fees: Amount,
+  netPnl: SignedAmount,
+  trades: integer(),
+});
+
+export const PnlTotalsSchema = object({
+  realizedPnl: SignedAmount,
+  unrealizedPnl: SignedAmount,
+  fees: Amount,
+  netPnl: SignedAmount,
+});
+
+// Net PnL across every market at one moment
+export const EquityPointSchema = object({
+  time: integer(),
+  netPnl: SignedAmount,
+});
+
+export const ContractAddressesSchema = object({
+  token: Address,
+  escrow: Address,
+  orderBook: Address,
+  sponsoredFpc: Address,
+});
+
+export const ErrorSchema = object({
+  code: string(),
+  message: string(),
+  details: optional(array(object({ path: string(), message: string() }))),
+});
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+// Generic acknowledgement for endpoints with no payload
+export const MessageResponse = object({
+  message: optional(string()),
+});
+
+// GET /api/health - network is the id of the profile in shared/networks.mjs
+// the server was started with; contracts is null where nothing is deployed
+export const HealthResponse = object({
+  status: oneOf('ok', 'degraded'),
+  timestamp: integer(),
+  network: string(),
+  chainId: string(),
+  adapter: oneOf('aztec', 'mock'),
+  nodeVersion: nullable(string()),
+  contracts: nullable(ContractAddressesSchema),
+});
+
+// POST /api/wallet/connect
+export const ConnectWalletRequest = object({
+  secretKey: SecretKey,
+  salt: optional(Salt),
+});
+
+export const ConnectWalletResponse = object({
+  address: Address,
+  sessionToken: string(),
+  expiresAt: integer(),
+  message: string(),
+});
+
+// GET /api/wallet/session (authenticated)
+export const SessionResponse = object({
+  address: Address,
+  expiresAt: integer(),
+});
+
+// POST /api/wallet/disconnect (authenticated) responds with MessageResponse
+
+// GET /api/node/block
+export const BlockInfoResponse = object({
+  blockNumber: integer(),
+  provenBlockNumber: integer(),
+  finalizedBlockNumber: integer(),
+  timestamp: integer(),
+});
+
+// Endpoints that serve a single market default to DEFAULT_MARKET_ID
+export const MarketQuery = object({
+  market: optional(MarketId),
+});
+
+// GET /api/orders?market= (resting book) and GET /api/orders/mine
+// (authenticated, every market)
+export const OrdersResponse = object({
+  orders: array(OrderSchema),
+});
+
+// POST /api/orders (authenticated)
+// `type` defaults to limit; every type except market requires a price.
+// Amounts and prices must respect the market's lot size, minimum and tick.
+export const CreateOrderRequest = object({
+  market: optional(MarketId),
+  side: Side,
+  type: optional(OrderType),
+  amount: Decimal,
+  price: optional(Decimal),
+  worstPrice: optional(Decimal),
+});
+
+// `transaction` is mined once every fill has settled on chain, and fails if a
+// settlement does; with nothing to settle it is confirmed straight away.
+export const CreateOrderResponse = object({
+  orderId: string(),
+  order: OrderSchema,
+  fills: array(FillSchema),
+  message: string(),
+  transaction: TransactionSchema,
+});
+
+// DELETE /api/orders/cancel/:id and DELETE /api/orders/cancel?market= (authenticated;
+// without `market`, cancels open orders in every market). Cancels send
+// nothing on chain, so their `transaction` is already confirmed.
+export const CancelOrderResponse = object({
+  order: OrderSchema,
+  message: string(),
+  transaction: TransactionSchema,
+});
+
+export const CancelAllOrdersResponse = object({
+  cancelled: array(OrderSchema),
+  message: string(),
+  transaction: TransactionSchema,
+});
+
+// GET /api/balance and POST /api/balance (authenticated)
+// GET reads the market token; POST can name another token. `balance` is
+// the private and public balances combined.
+export const BalanceRequest = object({
+  tokenAddress: optional(Address),
+});
+
+export const BalanceResponse = object({
+  balance: Amount,
+  privateBalance: Amount,
+  publicBalance: Amount,
+  decimals: integer(),
+  symbol: string(),
+  tokenAddress: Address,
+  updatedAt: number(),
+});
+
+// POST /api/transfer (authenticated)
+// Sends the market token from the session's wallet. Responds 202 with a
+// transaction handle once the transfer is accepted; follow it with
+// GET /api/transactions/:id until it is mined or failed.
+export const TransferRequest = object({
+  to: Address,
+  amount: Decimal,
+  visibility: oneOf('private', 'public'),
+});
+
+export const TransferResponse = object({
+  transaction: TransactionSchema,
+  message: string(),
+});
+
+// GET /api/transactions/:id (authenticated, own transactions only)
+export const TransactionResponse = object({
+  transaction: TransactionSchema,
+});
+
+// GET /api/transactions (authenticated) - the caller's recent transactions, newest first
+export const TransactionsResponse = object({
+  transactions: array(TransactionSchema),
+});
+
+// GET /api/escrow (authenticated) - the caller's escrowed balance of every
+// token and their recent deposits and withdrawals, newest first
+export const EscrowResponse = object({
+  balances: array(EscrowBalanceSchema),
+  movements: array(EscrowMovementSchema),
+});
+
+// POST /api/escrow/deposit and POST /api/escrow/withdraw (authenticated)
+// Deposits move the wallet's private balance into escrow; withdrawals send
+// available escrowed funds back to it. Both respond 202 with a transaction
+// handle, like POST /api/transfer.
+export const EscrowRequest = object({
+  token: TokenSymbol,
+  amount: Decimal,
+});
+
+export const EscrowTransferResponse = object({
+  transaction: TransactionSchema,
+  movement: EscrowMovementSchema,
+  message: string(),
+});
+
+// GET /api/jobs/:id (authenticated, own jobs only) - a transaction's jobId
+// names the proving job that sends it
+export const JobResponse = object({
+  job: JobSchema,
+});
+
+// GET /api/fills?market=&account=&from=&to=&limit=&cursor= (authenticated)
+// Lists the caller's fills newest first; `account` defaults to (and must be)
+// the session's address. `from` and `to` are inclusive millisecond bounds.
+// Pass `nextCursor` back as `cursor` for the following page. Without
+// `market`, fills from every market are listed.
+export const FillsQuery = object({
+  market: optional(MarketId),
+  account: optional(Address),
+  from: optional(IntegerString),
+  to: optional(IntegerString),
+  limit: optional(IntegerString),
+  cursor: optional(string()),
+});
+
+export const FillsResponse = object({
+  fills: array(AccountFillSchema),
+  nextCursor: nullable(string()),
+});
+
+// GET /api/pnl?method= (authenticated)
+// The session wallet's PnL from its fills, per market and in total, with
+// the net PnL after each trade that moved it, oldest first. Every market is
+// quoted in the same token, so totals add up directly. `method` defaults to
+// FIFO. Fills whose settlement failed were reverted and do not count.
+export const PnlQuery = object({
+  method: optional(oneOf(...Object.values(COST_BASIS_METHODS))),
+});
+
+export const PnlResponse = object({
+  method: oneOf(...Object.values(COST_BASIS_METHODS)),
+  assets: array(PnlAssetSchema),
+  totals: PnlTotalsSchema,
+  equity: array(EquityPointSchema),
+});
+
+// GET /api/candles?market=&interval=&from=&to=&limit=
+// The most recent `limit` candles in the range, oldest first. Intervals
+// without trades are omitted. The newest candle keeps changing until its
+// interval closes.
+export const CandlesQuery = object({
+  market: optional(MarketId),
+  interval: CandleInterval,
+  from: optional(IntegerString),
+  to: optional(IntegerString),
+  limit: optional(IntegerString),
+});
+
+export const CandlesResponse = object({
+  interval: CandleInterval,
+  candles: array(CandleSchema),
+});
+
+// GET /api/stream?market=&session= (server-sent events)
+// EventSource cannot set headers, so the session token rides in the query;
+// with a session the stream also carries the owner's order updates in
+// that market.
+export const StreamQuery = object({
+  market: optional(MarketId),
+  session: optional(string()),
+});
+
+export const StreamSnapshotEvent = object({
+  seq: integer(),
+  bids: array(BookLevelSchema),
+  asks: array(BookLevelSchema),
+  trades: array(TradeSchema),
+  orders: array(OrderSchema),
+});
+
+export const StreamLevelEvent = object({
+  seq: integer(),
+  side: oneOf('bid', 'ask'),
+  action: oneOf('add', 'update', 'remove'),
+  price: Amount,
+  amount: Amount,
+  count: integer(),
+});
+
+export const StreamTradeEvent = object({
+  seq: integer(),
+  id: string(),
+  price: Amount,
+  amount: Amount,
+  isBuy: boolean(),
+  timestamp: integer(),
+});
+
+// A trade whose settlement failed; clients drop it from their tape
+export const StreamRevertEvent = object({
+  seq: integer(),
+  id: string(),
+});
+
+export const StreamOrderEvent = object({
+  order: OrderSchema,
+});
@@ -0,0 +1,77 @@
+// Market Registry
+// Token contracts and the base/quote markets traded between them, shared by
+// the client and the server. Prices are quoted in the quote token per unit
+// of base token. Orders must be a multiple of the lot size, at least the
+// minimum order, and priced on the tick grid.
+
+/**
+ * @typedef {{ symbol: string, name: string, address: string, decimals: number }} Token
+ * @typedef {{ id: string, base: string, quote: string, tickSize: string, lotSize: string, minOrder: string, groupings: number[] }} Market
+ */
+
+// DMT is the token deployed on devnet. USDC and WETH are deployed by the mock
+// chain adapter at these addresses; they have no devnet deployment yet.
+export const TOKENS = /** @type {const} */ ({
+  DMT: {
+    symbol: 'DMT',
+    name: 'Dark Market Token',
+    address: '0x2731c1024ce94a508083fe50ae1b22a1274f0f7a4c7157e294899b366ea55816',
+    decimals: 18,
+  },
+  USDC: {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    address: '0x1cfa21debc7fe9209e42d1db49332b6c11eb01698582bb4a9fca49b681b907c2',
+    decimals: 6,
+  },
+  WETH: {
+    symbol: 'WETH',
+    name: 'Wrapped Ether',
+    address: '0x0aa89129a8051aab1c8f2dd3c2f91a20e14a989a960fd108469bc85b33a4292b',
+    decimals: 18,
+  },
+});
+
+/** @type {Market[]} */
+export const MARKETS = [
+  {
+    id: 'DMT-USDC',
+    base: 'DMT',
+    quote: 'USDC',
+    tickSize: '0.01',
+    lotSize: '0.0001',
+    minOrder: '0.001',
+    groupings: [0.01, 0.1, 1, 10],
+  },
+  {
+    id: 'WETH-USDC',
+    base: 'WETH',
+    quote: 'USDC',
+    tickSize: '0.1',
+    lotSize: '0.0001',
+    minOrder: '0.001',
+    groupings: [0.1, 1, 10, 100],
+  },
+];
+
+// Orders and fills recorded before markets existed belong to this one
+export const DEFAULT_MARKET_ID = 'DMT-USDC';
+
+/**
+ * Look up a market by id
+ * @param {string} id
+ * @returns {Market | undefined}
+ */
+export function getMarket(id) {
+  return MARKETS.find((market) => market.id === id);
+}
+
+/**
+ * Decimal places of a decimal string such as a tick or lot size
+ * @param {string} value
+ * @returns {number}
+ */
+export function decimalPlaces(value) {
+  const [, fraction = ''] = value.split('.');
+  return fraction.length;
+}
@@ -0,0 +1,57 @@
+// Network Profiles
+// Node URL, chain ID and deployed contracts for each network the app can run
+// against, shared by the client and the server. An API server serves one
+// network (NETWORK, default devnet); the client picks which network's API
+// server it talks to.
+
+import { TOKENS } from './markets.mjs';
+
+/**
+ * @typedef {{ token: string, escrow: string, orderBook: string, sponsoredFpc: string }} ContractSet
+ * @typedef {{ id: string, name: string, label: string, nodeUrl: string, chainId: string, contracts: ContractSet | null }} NetworkProfile
+ */
+
+// Networks without a deployment have no contracts and only run on the mock chain adapter
+/** @type {NetworkProfile[]} */
+export const NETWORKS = [
+  {
+    id: 'local',
+    name: 'Local Sandbox',
+    label: 'Sandbox',
+    nodeUrl: 'http://localhost:8080',
+    chainId: 'aztec-sandbox',
+    contracts: null,
+  },
+  {
+    id: 'devnet',
+    name: 'Aztec Devnet',
+    label: 'Devnet v3.0.0',
+    nodeUrl: 'https://devnet.aztec-labs.com',
+    chainId: 'aztec-devnet-v3.0.0-devnet.5',
+    contracts: {
+      token: TOKENS.DMT.address,
+      escrow: '0x161fcf08c79d512031323bee0f49381ade4799a3b6b7b3470e9c5a43af9eebc2',
+      orderBook: '0x23d2149ea91babceacc6e98fe5bef2dfd875622516ba182da53cb7f1b466aaac',
+      sponsoredFpc: '0x280e5686a148059543f4d0968f9a18cd4992520fcd887444b8689bf2726a1f97',
+    },
+  },
+  {
+    id: 'testnet',
+    name: 'Aztec Testnet',
+    label: 'Testnet',
+    nodeUrl: 'https://aztec-alpha-testnet-fullnode.zkv.xyz',
+    chainId: 'aztec-alpha-testnet',
+    contracts: null,
+  },
+];
+
+export const DEFAULT_NETWORK_ID = 'devnet';
+
+/**
+ * Look up a network profile by id
+ * @param {string} id
+ * @returns {NetworkProfile | undefined}
+ */
+export function getNetwork(id) {
+  return NETWORKS.find((network) => network.id === id);
+}